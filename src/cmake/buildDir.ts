@@ -0,0 +1,42 @@
+import * as path from 'path';
+import { ModuleInfo } from '../state/types';
+
+export const DEFAULT_BUILD_DIR = 'out';
+
+export type BuildDirVariables = Record<string, string | undefined>;
+
+/**
+ * Substitutes `${workspaceFolder}`, `${modulePath}`, `${moduleName}` (path relative to the module
+ * root), `${moduleDirName}`, `${variant}` and any extra variables (e.g. `${buildType}`) in a
+ * setting value. Unknown variables are left untouched.
+ */
+export function expandModuleVariables(template: string, moduleInfo: ModuleInfo, extra: BuildDirVariables = {}): string {
+  const variables: BuildDirVariables = {
+    workspaceFolder: moduleInfo.workspaceFolder.uri.fsPath,
+    modulePath: moduleInfo.path,
+    moduleName: moduleInfo.name,
+    moduleDirName: path.basename(moduleInfo.path),
+    variant: moduleInfo.variant,
+    ...extra,
+  };
+  return template.replace(/\$\{(\w+)\}/g, (match, name: string) => (name in variables ? variables[name] ?? '' : match));
+}
+
+/**
+ * Resolves a build directory template for a module. Relative results are resolved against the
+ * module directory. Variant modules always get their own tree: when a shared template (not the
+ * variant's own `buildDir`, see `variantTemplate`) does not mention `${variant}`, the variant name
+ * is appended.
+ */
+export function resolveBuildDir(
+  template: string | undefined,
+  moduleInfo: ModuleInfo,
+  extra: BuildDirVariables = {},
+  variantTemplate = false,
+): string {
+  let value = template?.trim() || DEFAULT_BUILD_DIR;
+  if (moduleInfo.variant && !variantTemplate && !value.includes('${variant}')) {
+    value = `${value}/\${variant}`;
+  }
+  return path.resolve(moduleInfo.path, path.normalize(expandModuleVariables(value, moduleInfo, extra)));
+}
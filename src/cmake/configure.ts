@@ -1,7 +1,8 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { runCommand } from '../utils/exec';
-import { BuildSystem, CMakeGenerator, selectGenerator } from './generator';
+import { writeCodemodelQuery } from './fileApi';
+import { BuildSystem, CMakeGenerator, detectExistingGenerator, selectGenerator } from './generator';
 
 export interface ConfigureResult {
   configured: boolean;
@@ -9,8 +10,15 @@ export interface ConfigureResult {
   output: string;
 }
 
-export async function hasCMakeCache(modulePath: string): Promise<boolean> {
-  const cachePath = path.join(modulePath, 'out', 'CMakeCache.txt');
+export interface ConfigureOptions {
+  buildDir: string;
+  buildSystem: BuildSystem;
+  configurePreset?: string;
+  cacheVariables?: Record<string, string>;
+}
+
+export async function hasCMakeCache(buildDir: string): Promise<boolean> {
+  const cachePath = path.join(buildDir, 'CMakeCache.txt');
   try {
     const stat = await fs.stat(cachePath);
     return stat.isFile();
@@ -19,23 +27,32 @@ export async function hasCMakeCache(modulePath: string): Promise<boolean> {
   }
 }
 
-export async function ensureConfigured(modulePath: string, buildSystem: BuildSystem): Promise<ConfigureResult> {
-  const outDir = path.join(modulePath, 'out');
+export function getConfigureArgs(generator: CMakeGenerator, options: ConfigureOptions): string[] {
+  const cacheArgs = Object.entries(options.cacheVariables ?? {}).map(([name, value]) => `-D${name}=${value}`);
+  if (options.configurePreset) {
+    return ['--preset', options.configurePreset, ...cacheArgs];
+  }
+  return ['-S', './', '-B', options.buildDir, '-G', generator, ...cacheArgs];
+}
+
+export async function ensureConfigured(modulePath: string, options: ConfigureOptions): Promise<ConfigureResult> {
+  const { buildDir } = options;
   let exists = false;
   try {
-    const stat = await fs.stat(outDir);
+    const stat = await fs.stat(buildDir);
     exists = stat.isDirectory();
   } catch {
     exists = false;
   }
 
-  const generator = await selectGenerator(buildSystem, outDir);
-  if (exists && (await hasCMakeCache(modulePath))) {
+  const generator = await selectGenerator(options.buildSystem, buildDir);
+  if (exists && (await hasCMakeCache(buildDir))) {
     return { configured: false, generator, output: 'Skipped configure (existing CMake cache).' };
   }
 
-  await fs.mkdir(outDir, { recursive: true });
-  const result = await runCommand('cmake', ['-S', './', '-B', 'out', '-G', generator], modulePath);
+  await fs.mkdir(buildDir, { recursive: true });
+  await writeCodemodelQuery(buildDir);
+  const result = await runCommand('cmake', getConfigureArgs(generator, options), modulePath);
   const output = [result.stdout, result.stderr].filter(Boolean).join('\n');
-  return { configured: true, generator, output };
+  return { configured: true, generator: (await detectExistingGenerator(buildDir)) ?? generator, output };
 }
@@ -0,0 +1,125 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+const API_DIR = path.join('.cmake', 'api', 'v1');
+const CLIENT = 'client-targetsManager';
+const QUERY_FILE = 'query.json';
+
+export type CMakeTargetType =
+  | 'EXECUTABLE'
+  | 'STATIC_LIBRARY'
+  | 'SHARED_LIBRARY'
+  | 'MODULE_LIBRARY'
+  | 'OBJECT_LIBRARY'
+  | 'INTERFACE_LIBRARY'
+  | 'UTILITY';
+
+export interface CMakeTargetInfo {
+  name: string;
+  type: CMakeTargetType;
+  sources: string[];
+  artifacts: string[];
+}
+
+interface ReplyIndex {
+  objects?: Array<{ kind?: string; version?: { major?: number }; jsonFile?: string }>;
+  reply?: Record<string, Record<string, { responses?: Array<{ kind?: string; jsonFile?: string }> }>>;
+}
+
+interface Codemodel {
+  paths?: { source?: string; build?: string };
+  configurations?: Array<{ targets?: Array<{ name?: string; jsonFile?: string }> }>;
+}
+
+interface TargetReply {
+  name?: string;
+  type?: CMakeTargetType;
+  sources?: Array<{ path?: string }>;
+  artifacts?: Array<{ path?: string }>;
+}
+
+async function readJson<T>(filePath: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Registers a stateful codemodel-v2 query for this extension. CMake answers it on the next
+ * configure (including the automatic re-configure a build triggers).
+ */
+export async function writeCodemodelQuery(buildDir: string): Promise<void> {
+  const queryDir = path.join(buildDir, API_DIR, 'query', CLIENT);
+  try {
+    await fs.mkdir(queryDir, { recursive: true });
+    await fs.writeFile(
+      path.join(queryDir, QUERY_FILE),
+      JSON.stringify({ requests: [{ kind: 'codemodel', version: 2 }] }, null, 2),
+    );
+  } catch (error) {
+    console.error(`Failed to write CMake File API query in ${buildDir}`, error);
+  }
+}
+
+async function findCodemodelFile(replyDir: string): Promise<string | undefined> {
+  let entries: string[] = [];
+  try {
+    entries = await fs.readdir(replyDir);
+  } catch {
+    return undefined;
+  }
+  const indexFile = entries
+    .filter((entry) => entry.startsWith('index-') && entry.endsWith('.json'))
+    .sort()
+    .pop();
+  if (!indexFile) {
+    return undefined;
+  }
+  const index = await readJson<ReplyIndex>(path.join(replyDir, indexFile));
+  const fromClient = index?.reply?.[CLIENT]?.[QUERY_FILE]?.responses?.find((item) => item.kind === 'codemodel');
+  const fromObjects = index?.objects?.find((item) => item.kind === 'codemodel' && item.version?.major === 2);
+  return fromClient?.jsonFile ?? fromObjects?.jsonFile;
+}
+
+/**
+ * Reads the codemodel reply of a configured build directory. Returns `undefined` when no reply
+ * exists yet so callers can fall back to scraping the generator's target list.
+ */
+export async function readCodemodelReply(buildDir: string): Promise<CMakeTargetInfo[] | undefined> {
+  const replyDir = path.join(buildDir, API_DIR, 'reply');
+  const codemodelFile = await findCodemodelFile(replyDir);
+  if (!codemodelFile) {
+    return undefined;
+  }
+  const codemodel = await readJson<Codemodel>(path.join(replyDir, codemodelFile));
+  const configuration = codemodel?.configurations?.[0];
+  if (!codemodel || !configuration) {
+    return undefined;
+  }
+  const sourceDir = codemodel.paths?.source ?? '';
+  const binaryDir = codemodel.paths?.build ?? buildDir;
+
+  const targets: CMakeTargetInfo[] = [];
+  for (const entry of configuration.targets ?? []) {
+    if (!entry.jsonFile) {
+      continue;
+    }
+    const target = await readJson<TargetReply>(path.join(replyDir, entry.jsonFile));
+    if (!target?.name || !target.type) {
+      continue;
+    }
+    targets.push({
+      name: target.name,
+      type: target.type,
+      sources: (target.sources ?? [])
+        .filter((source) => source.path)
+        .map((source) => path.resolve(sourceDir, source.path as string)),
+      artifacts: (target.artifacts ?? [])
+        .filter((artifact) => artifact.path)
+        .map((artifact) => path.resolve(binaryDir, artifact.path as string)),
+    });
+  }
+  return targets;
+}
@@ -0,0 +1,146 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const PRESET_FILES = ['CMakePresets.json', 'CMakeUserPresets.json'];
+
+export const PICK_PRESET = 'pick';
+
+export interface ConfigurePreset {
+  name: string;
+  displayName?: string;
+  description?: string;
+  hidden: boolean;
+  generator?: string;
+  binaryDir?: string;
+}
+
+export interface BuildPreset {
+  name: string;
+  displayName?: string;
+  description?: string;
+  hidden: boolean;
+  configurePreset?: string;
+}
+
+export interface ModulePresets {
+  configurePresets: ConfigurePreset[];
+  buildPresets: BuildPreset[];
+}
+
+interface RawPreset {
+  name?: string;
+  displayName?: string;
+  description?: string;
+  hidden?: boolean;
+  inherits?: string | string[];
+  generator?: string;
+  binaryDir?: string;
+  configurePreset?: string;
+}
+
+interface RawPresetsFile {
+  include?: string[];
+  configurePresets?: RawPreset[];
+  buildPresets?: RawPreset[];
+}
+
+async function readPresetsFile(filePath: string, visited: Set<string>, into: RawPresetsFile): Promise<boolean> {
+  const resolved = path.resolve(filePath);
+  if (visited.has(resolved)) {
+    return false;
+  }
+  visited.add(resolved);
+  let parsed: RawPresetsFile;
+  try {
+    parsed = JSON.parse(await fs.readFile(resolved, 'utf8')) as RawPresetsFile;
+  } catch {
+    return false;
+  }
+  into.configurePresets?.push(...(parsed.configurePresets ?? []));
+  into.buildPresets?.push(...(parsed.buildPresets ?? []));
+  for (const include of parsed.include ?? []) {
+    await readPresetsFile(path.resolve(path.dirname(resolved), include), visited, into);
+  }
+  return true;
+}
+
+function resolveInherited(presets: RawPreset[], name: string, field: keyof RawPreset, seen = new Set<string>()): unknown {
+  const preset = presets.find((item) => item.name === name);
+  if (!preset || seen.has(name)) {
+    return undefined;
+  }
+  seen.add(name);
+  if (preset[field] !== undefined) {
+    return preset[field];
+  }
+  const parents = typeof preset.inherits === 'string' ? [preset.inherits] : preset.inherits ?? [];
+  for (const parent of parents) {
+    const value = resolveInherited(presets, parent, field, seen);
+    if (value !== undefined) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Expands the CMake preset macros that can appear in `binaryDir` and resolves the result against
+ * the module (source) directory, as CMake does for relative paths.
+ */
+export function expandPresetMacros(
+  value: string,
+  context: { sourceDir: string; presetName: string; generator?: string },
+): string {
+  const hostSystemName = os.platform() === 'win32' ? 'Windows' : os.platform() === 'darwin' ? 'Darwin' : 'Linux';
+  const expanded = value
+    .replace(/\$\{sourceDir\}/g, context.sourceDir)
+    .replace(/\$\{sourceParentDir\}/g, path.dirname(context.sourceDir))
+    .replace(/\$\{sourceDirName\}/g, path.basename(context.sourceDir))
+    .replace(/\$\{presetName\}/g, context.presetName)
+    .replace(/\$\{generator\}/g, context.generator ?? '')
+    .replace(/\$\{hostSystemName\}/g, hostSystemName)
+    .replace(/\$\{pathListSep\}/g, path.delimiter)
+    .replace(/\$\{dollar\}/g, '$')
+    .replace(/\$p?env\{([^}]+)\}/g, (_, name: string) => process.env[name] ?? '');
+  return path.resolve(context.sourceDir, expanded);
+}
+
+export async function loadModulePresets(modulePath: string): Promise<ModulePresets | undefined> {
+  const raw: RawPresetsFile = { configurePresets: [], buildPresets: [] };
+  const visited = new Set<string>();
+  let found = false;
+  for (const file of PRESET_FILES) {
+    found = (await readPresetsFile(path.join(modulePath, file), visited, raw)) || found;
+  }
+  if (!found) {
+    return undefined;
+  }
+
+  const rawConfigure = (raw.configurePresets ?? []).filter((preset) => typeof preset.name === 'string');
+  const rawBuild = (raw.buildPresets ?? []).filter((preset) => typeof preset.name === 'string');
+  const configurePresets = rawConfigure.map((preset): ConfigurePreset => {
+    const name = preset.name as string;
+    const generator = resolveInherited(rawConfigure, name, 'generator') as string | undefined;
+    const binaryDir = resolveInherited(rawConfigure, name, 'binaryDir') as string | undefined;
+    return {
+      name,
+      displayName: preset.displayName,
+      description: preset.description,
+      hidden: preset.hidden === true,
+      generator,
+      binaryDir: binaryDir ? expandPresetMacros(binaryDir, { sourceDir: modulePath, presetName: name, generator }) : undefined,
+    };
+  });
+  const buildPresets = rawBuild.map(
+    (preset): BuildPreset => ({
+      name: preset.name as string,
+      displayName: preset.displayName,
+      description: preset.description,
+      hidden: preset.hidden === true,
+      configurePreset: resolveInherited(rawBuild, preset.name as string, 'configurePreset') as string | undefined,
+    }),
+  );
+
+  return { configurePresets, buildPresets };
+}
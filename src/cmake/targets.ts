@@ -1,31 +1,66 @@
+import * as fs from 'fs/promises';
 import * as path from 'path';
 import { runCommand } from '../utils/exec';
+import { CMakeTargetInfo, readCodemodelReply, writeCodemodelQuery } from './fileApi';
 import { CMakeGenerator } from './generator';
 
-export async function detectTargets(modulePath: string, generator: CMakeGenerator): Promise<Set<string>> {
-  const outDir = path.join(modulePath, 'out');
+// Targets the generator adds on its own; the File API codemodel only lists project targets.
+const GENERATOR_TARGETS = ['all', 'clean', 'help', 'edit_cache', 'rebuild_cache'];
+
+export interface DetectedTargets {
+  names: Set<string>;
+  details: CMakeTargetInfo[];
+}
+
+export async function detectTargets(
+  modulePath: string,
+  buildDir: string,
+  generator: CMakeGenerator,
+): Promise<DetectedTargets> {
+  const reply = await readCodemodelReply(buildDir);
+  if (reply) {
+    const names = new Set([...GENERATOR_TARGETS, ...reply.map((target) => target.name)]);
+    if (await fileExists(path.join(buildDir, 'CTestTestfile.cmake'))) {
+      names.add('test');
+    }
+    return { names, details: reply };
+  }
+  // Ask CMake for a reply on the next (re-)configure and scrape the generator output meanwhile.
+  await writeCodemodelQuery(buildDir);
+  return { names: await scrapeTargets(modulePath, buildDir, generator), details: [] };
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+async function scrapeTargets(modulePath: string, buildDir: string, generator: CMakeGenerator): Promise<Set<string>> {
   const targets = new Set<string>();
   if (generator === 'Ninja') {
-    const result = await runCommand('ninja', ['-C', 'out', '-t', 'targets'], modulePath);
+    const result = await runCommand('ninja', ['-C', buildDir, '-t', 'targets'], modulePath);
     const output = `${result.stdout}\n${result.stderr}`;
     collectNinjaTargets(output, targets);
-    const allResult = await runCommand('ninja', ['-C', 'out', '-t', 'targets', 'all'], modulePath);
+    const allResult = await runCommand('ninja', ['-C', buildDir, '-t', 'targets', 'all'], modulePath);
     const allOutput = `${allResult.stdout}\n${allResult.stderr}`;
     collectNinjaTargets(allOutput, targets);
     if (targets.size === 0) {
-      const fallback = await runCommand('cmake', ['--build', 'out', '--target', 'help'], modulePath);
+      const fallback = await runCommand('cmake', ['--build', buildDir, '--target', 'help'], modulePath);
       const fallbackOutput = `${fallback.stdout}\n${fallback.stderr}`;
       collectTargetsFromLines(fallbackOutput, targets);
     }
     return targets;
   }
 
-  const result = await runCommand('cmake', ['--build', 'out', '--target', 'help'], modulePath);
+  const result = await runCommand('cmake', ['--build', buildDir, '--target', 'help'], modulePath);
   const output = `${result.stdout}\n${result.stderr}`;
   collectTargetsFromLines(output, targets);
 
   if (targets.size === 0) {
-    const fallback = await runCommand('make', ['-C', outDir, 'help'], modulePath);
+    const fallback = await runCommand('make', ['-C', buildDir, 'help'], modulePath);
     const fallbackOutput = `${fallback.stdout}\n${fallback.stderr}`;
     collectTargetsFromLines(fallbackOutput, targets);
   }
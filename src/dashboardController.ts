@@ -1,37 +1,285 @@
 import * as os from 'os';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { ensureConfigured, hasCMakeCache } from './cmake/configure';
-import { selectGenerator } from './cmake/generator';
+import { expandModuleVariables, resolveBuildDir } from './cmake/buildDir';
+import { ensureConfigured, getConfigureArgs, hasCMakeCache } from './cmake/configure';
+import { writeCodemodelQuery } from './cmake/fileApi';
+import { CMakeGenerator, detectExistingGenerator, selectGenerator } from './cmake/generator';
+import { loadModulePresets, ModulePresets, PICK_PRESET } from './cmake/presets';
 import { detectTargets } from './cmake/targets';
 import { BuildSystem } from './cmake/generator';
-import { discoverModules } from './discovery/modules';
-import { TargetRunner } from './runner/targetRunner';
+import { ExcludedDirectory } from './discovery/exclusions';
+import { discoverModules, MODULE_FILES, resolveModuleRoots } from './discovery/modules';
+import {
+  AutoTargetOrder,
+  applyTargetDefaults,
+  DEFAULT_AUTO_TARGET_EXCLUDES,
+  isCoverageTarget,
+  isCppcheckTarget,
+  loadTargets,
+  selectAutoTargets,
+  TargetMode,
+  TargetsListKey,
+} from './discovery/targets';
+import {
+  CoverageReport,
+  FileCoverage,
+  parseCoverageReport,
+  parseCoverageSummary,
+} from './parsers/coverage';
+import { CompilerDiagnostic, parseCompilerOutput } from './parsers/compiler';
+import { CppcheckFinding, parseCppcheckOutput, parseCppcheckXml } from './parsers/cppcheck';
+import { parseJUnitReport } from './parsers/junit';
+import { parseUnityOutput } from './parsers/unity';
+import { BlockedTarget, ModulePipeline } from './runner/pipeline';
+import { filterIgnoredLines, mergeStatusRules } from './runner/statusRules';
+import { RunUpdate, TargetRunner } from './runner/targetRunner';
+import { DEFAULT_HISTORY_LIMIT, getOutputTail, RunHistory } from './state/runHistory';
+import { RunLogStore } from './state/runLogs';
 import { StateStore } from './state/stateStore';
-import { ModuleInfo } from './state/types';
+import {
+  CoverageCounter,
+  CoverageOptions,
+  CoverageSummary,
+  CoverageThresholds,
+  DashboardState,
+  ModuleInfo,
+  ModuleState,
+  PresetSelection,
+  StatusRules,
+  TargetDefinition,
+  TargetRunStatus,
+  TestResults,
+  VariantLayout,
+} from './state/types';
 import { DashboardViewProvider, WebviewMessage } from './webview/dashboardView';
+import { LogViewProvider } from './webview/logView';
 import * as fs from 'fs/promises';
-import { createConfigureTask } from './tasks/taskFactory';
+import {
+  createConfigureTask,
+  formatTargetCommand,
+  getCTestReportPath,
+  getTargetCommand,
+  getTaskName,
+  TargetCommandOptions,
+} from './tasks/taskFactory';
 import { terminateAllRunnerTasks } from './tasks/taskRegistry';
+import { globToRegExp } from './utils/glob';
+import { openFileLocation } from './utils/location';
 
 interface RunnerSettings {
   buildSystem: BuildSystem;
   makeJobs: string | number;
   maxParallel: number;
+  targetTimeout: number;
+  noOutputTimeout: number;
+  historyLimit: number;
+}
+
+const WATCH_DEBOUNCE_MS = 500;
+
+const isWithin = (candidate: string, directory: string): boolean => {
+  const relative = path.relative(path.resolve(directory), candidate);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+};
+
+// Where coverage targets usually leave their report, relative to the build directory.
+const COVERAGE_REPORTS = [
+  'coverage.info',
+  'lcov.info',
+  'coverage.json',
+  'coverage.xml',
+  'coverage/coverage.info',
+  'coverage/lcov.info',
+  'coverage/coverage.json',
+  'coverage/coverage.xml',
+];
+
+// Where cppcheck targets usually write their `--xml` report, relative to the build directory.
+const CPPCHECK_REPORTS = ['cppcheck.xml', 'cppcheck-report.xml', 'cppcheck_report.xml'];
+
+const getPercent = (counter?: CoverageCounter): number | undefined =>
+  counter && counter.total > 0 ? (counter.covered / counter.total) * 100 : undefined;
+
+type StatusChange = Pick<RunUpdate, 'status' | 'statusReason'>;
+
+const pluralize = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/** Describes the first threshold the coverage falls below, if any. */
+const describeBelow = (summary: CoverageSummary, thresholds?: CoverageThresholds): string | undefined => {
+  const lines = getPercent(summary.lines);
+  const branches = getPercent(summary.branches);
+  if (thresholds?.line !== undefined && lines !== undefined && lines < thresholds.line) {
+    return `Line coverage ${lines.toFixed(1)}% is below ${thresholds.line}%`;
+  }
+  if (thresholds?.branch !== undefined && branches !== undefined && branches < thresholds.branch) {
+    return `Branch coverage ${branches.toFixed(1)}% is below ${thresholds.branch}%`;
+  }
+  return undefined;
+};
+
+/** Downgrades a passing coverage run whose coverage is below the target's thresholds. */
+const getCoverageStatus = (current: StatusChange, summary: CoverageSummary, options?: CoverageOptions): StatusChange => {
+  if (current.status !== 'success' && current.status !== 'warning') {
+    return current;
+  }
+  const failure = describeBelow(summary, options?.failBelow);
+  if (failure) {
+    return { status: 'failed', statusReason: failure };
+  }
+  const warning = describeBelow(summary, options?.warnBelow);
+  return warning ? { status: 'warning', statusReason: warning } : current;
+};
+
+/** Escalates a passing run by the compiler diagnostics it printed. */
+/**
+ * Escalates a passing run by its compiler diagnostics, the way the default `error:` and `warning:`
+ * rules would. Configured failure or warning patterns replace the matching escalation, and an exit
+ * code mapped by `exitCodes` keeps its status.
+ */
+const getDiagnosticsStatus = (
+  current: StatusChange,
+  diagnostics: CompilerDiagnostic[],
+  exitCode: number | undefined,
+  rules: StatusRules | undefined,
+): StatusChange => {
+  if (current.status !== 'success' && current.status !== 'warning') {
+    return current;
+  }
+  if (exitCode !== undefined && rules?.exitCodes?.[String(exitCode)]) {
+    return current;
+  }
+  const errors = diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+  if (errors > 0 && !rules?.failurePatterns) {
+    return { status: 'failed', statusReason: pluralize(errors, 'compiler error') };
+  }
+  const warnings = diagnostics.length - errors;
+  return warnings > 0 && current.status === 'success' && !rules?.warningPatterns
+    ? { status: 'warning', statusReason: pluralize(warnings, 'compiler warning') }
+    : current;
+};
+
+/**
+ * Derives the status of a cppcheck run that exited cleanly from its findings alone: errors fail it,
+ * warnings make it a warning, style and other findings leave it passing.
+ */
+const getCppcheckStatus = (update: RunUpdate, findings: CppcheckFinding[]): StatusChange => {
+  if (update.exitCode !== 0 || !['success', 'warning', 'failed'].includes(update.status)) {
+    return update;
+  }
+  const errors = findings.filter((finding) => finding.severity === 'error').length;
+  const warnings = findings.filter((finding) => finding.severity === 'warning').length;
+  if (errors > 0) {
+    return { status: 'failed', statusReason: `cppcheck reported ${pluralize(errors, 'error')}` };
+  }
+  return warnings > 0
+    ? { status: 'warning', statusReason: `cppcheck reported ${pluralize(warnings, 'warning')}` }
+    : { status: 'success', statusReason: 'cppcheck reported no errors or warnings' };
+};
+
+const getCellKey = (moduleId: string, target: string): string => `${moduleId}\n${target}`;
+
+const getModuleDisplayName = ({ module }: ModuleState): string =>
+  module.variant ? `${module.name} [${module.variant}]` : module.name;
+
+const parseCellKey = (key: string): [string, string] => {
+  const separator = key.indexOf('\n');
+  return [key.slice(0, separator), key.slice(separator + 1)];
+};
+
+interface RunOptions {
+  autoCloseOnSuccess?: boolean;
+  runInTerminal?: boolean;
+  restart?: boolean;
+}
+
+interface CellWatch {
+  watcher: vscode.FileSystemWatcher;
+  timer?: NodeJS.Timeout;
+}
+
+interface PipelineEntry {
+  pipeline: ModulePipeline;
+  options: RunOptions;
+}
+
+export interface CoverageUpdateEvent {
+  /** Module and target the coverage belongs to. */
+  source: string;
+  /** Line coverage by absolute file path; empty when the run produced no coverage. */
+  files: Record<string, FileCoverage>;
+}
+
+export interface CppcheckUpdateEvent {
+  /** Module and target the findings belong to. */
+  source: string;
+  /** Display name of the module, for attributing the findings. */
+  moduleName: string;
+  /** Findings with absolute file paths; empty when the run starts or reported nothing. */
+  findings: CppcheckFinding[];
+}
+
+export interface DiagnosticsUpdateEvent {
+  /** Module and target the diagnostics belong to. */
+  source: string;
+  /** Display name of the module, for attributing the diagnostics. */
+  moduleName: string;
+  target: string;
+  /** Compiler diagnostics of the run with absolute file paths; empty when the run starts. */
+  diagnostics: CompilerDiagnostic[];
+}
+
+export interface TargetRunEvent {
+  moduleId: string;
+  target: string;
+  /** Captured output, for finished runs. */
+  output?: string;
 }
 
 export type DashboardDefinition = {
   name: string;
   moduleRoots: string[];
   excludedModules: string[];
-  targets: string[];
+  targets: TargetDefinition[];
+  maxDepth?: number;
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  targetsFile?: string;
+  targetsListKey?: TargetsListKey;
+  targetMode?: TargetMode;
+  targetIncludePatterns?: string[];
+  targetExcludePatterns?: string[];
+  targetOrder?: AutoTargetOrder;
+  caseInsensitiveExclusions?: boolean;
+  configurePreset?: string;
+  buildPreset?: string;
+  buildDir?: string;
+  moduleBuildDirs?: Record<string, string>;
+  buildType?: string;
+  variants?: BuildVariant[];
+  variantLayout?: VariantLayout;
+  timeout?: number;
+  noOutputTimeout?: number;
+  statusRules?: StatusRules;
 };
 
-interface DashboardControllerOptions {
+export type BuildVariant = {
   name: string;
-  moduleRoots: string[];
-  excludedModules: string[];
-  targets: string[];
+  buildDir?: string;
+  buildSystem?: BuildSystem;
+  toolchainFile?: string;
+  cacheVariables?: Record<string, string>;
+  configurePreset?: string;
+  buildPreset?: string;
+};
+
+interface BuildContext {
+  buildDir: string;
+  configurePreset?: string;
+  buildPreset?: string;
+}
+
+interface DashboardControllerOptions extends DashboardDefinition {
   moduleLabel: string;
   actionsLabel: string;
   title: string;
@@ -40,6 +288,9 @@ interface DashboardControllerOptions {
 export class DashboardController implements vscode.Disposable {
   readonly name: string;
   private readonly stateStore = new StateStore();
+  private readonly history: RunHistory;
+  private readonly logs: RunLogStore;
+  private readonly logView: LogViewProvider;
   private readonly runner: TargetRunner;
   private readonly viewProvider: DashboardViewProvider;
   private readonly disposables: vscode.Disposable[] = [];
@@ -47,16 +298,37 @@ export class DashboardController implements vscode.Disposable {
   private readonly options: DashboardControllerOptions;
   private readonly configureTaskNames = new Map<string, string>();
   private readonly configureResolvers = new Map<string, (exitCode?: number) => void>();
-  private readonly runAllQueues = new Map<string, string[]>();
-  private readonly runAllActive = new Map<string, string>();
-  private readonly runModuleQueues = new Map<string, string[]>();
-  private readonly runModuleActive = new Map<string, string>();
+  private readonly pipelines = new Map<string, PipelineEntry>();
+  // Callers of `runTargets` waiting for a cell, keyed by module id and target.
+  private readonly cellWaiters = new Map<string, Array<() => void>>();
+  // Cells whose run has ended while its reports are still being read.
+  private readonly finishingCells = new Set<string>();
+  private readonly moduleRefreshTimers = new Map<string, NodeJS.Timeout>();
+  private moduleSyncTimer?: NodeJS.Timeout;
+  // Watched cells are keyed by module id and target so they can be restored after a refresh.
+  private readonly watchedCells = new Set<string>();
+  private readonly cellWatches = new Map<string, CellWatch>();
+  private readonly discoveryEmitter = new vscode.EventEmitter<void>();
+  private readonly stateEmitter = new vscode.EventEmitter<void>();
+  private readonly runEmitter = new vscode.EventEmitter<TargetRunEvent>();
+  private readonly coverageEmitter = new vscode.EventEmitter<CoverageUpdateEvent>();
+  private readonly cppcheckEmitter = new vscode.EventEmitter<CppcheckUpdateEvent>();
+  private readonly diagnosticsEmitter = new vscode.EventEmitter<DiagnosticsUpdateEvent>();
+  private configuredTargets: TargetDefinition[] = [];
+  private excludedDirectories: ExcludedDirectory[] = [];
+  private activeVariant?: string;
 
   constructor(private readonly context: vscode.ExtensionContext, options: DashboardControllerOptions) {
     this.options = options;
     this.name = options.name;
     const settings = this.getRunnerSettings();
     this.runner = new TargetRunner(settings.maxParallel);
+    this.history = new RunHistory(context.workspaceState, options.name, settings.historyLimit);
+    this.logs = new RunLogStore(
+      path.join((context.storageUri ?? context.globalStorageUri).fsPath, 'logs', encodeURIComponent(options.name)),
+      settings.historyLimit,
+    );
+    this.logView = new LogViewProvider((file) => this.logs.read(file));
     this.viewProvider = new DashboardViewProvider(
       context.extensionUri,
       (message) => this.handleWebviewMessage(message),
@@ -67,20 +339,28 @@ export class DashboardController implements vscode.Disposable {
 
     this.disposables.push(
       this.viewProvider,
+      this.logView,
       this.runner,
+      this.discoveryEmitter,
+      this.stateEmitter,
+      this.runEmitter,
+      this.coverageEmitter,
+      this.cppcheckEmitter,
+      this.diagnosticsEmitter,
       this.runner.onDidUpdate((update) => {
-        if (update.status === 'running') {
-          this.stateStore.updateRun(update.moduleId, update.target, { status: 'running', startedAt: Date.now() });
-        } else {
-          this.stateStore.updateRun(update.moduleId, update.target, {
-            status: update.status,
-            exitCode: update.exitCode,
-            finishedAt: Date.now(),
-          });
-          this.handleRunAllCompletion(update.moduleId, update.target);
-          this.handleRunModuleCompletion(update.moduleId, update.target);
+        if (update.status !== 'running') {
+          void this.handleRunFinished(update);
+          return;
         }
+        this.stateStore.updateRun(update.moduleId, update.target, {
+          status: 'running',
+          startedAt: Date.now(),
+          attempts: update.attempts,
+          statusReason: undefined,
+        });
         this.pushState();
+        this.clearRunDiagnostics(update.moduleId, update.target);
+        this.runEmitter.fire({ moduleId: update.moduleId, target: update.target });
       }),
       vscode.tasks.onDidEndTaskProcess((event) => this.handleConfigureTaskEnd(event)),
       vscode.workspace.onDidChangeConfiguration((event) => {
@@ -95,6 +375,8 @@ export class DashboardController implements vscode.Disposable {
   }
 
   dispose(): void {
+    this.clearWatchTimers();
+    this.disposeCellWatches();
     for (const watcher of this.watchers) {
       watcher.dispose();
     }
@@ -113,23 +395,108 @@ export class DashboardController implements vscode.Disposable {
       return;
     }
 
-    const targets = this.options.targets.map((name) => ({ name }));
-    this.stateStore.setTargets(targets);
+    this.configuredTargets = await this.loadTargetDefinitions();
+    this.applyTargetColumns();
+
+    const modules = await this.discoverAllModules(folders);
+    this.stateStore.setModules(modules);
+    this.restoreRunHistory();
+    this.restoreCellWatches();
+    this.pushState();
 
-    const excluded = new Set(this.options.excludedModules);
+    for (const moduleInfo of modules) {
+      await this.refreshModule(moduleInfo, settings);
+      this.pushState();
+    }
+    this.pruneRunHistory();
+  }
+
+  private async discoverAllModules(folders: readonly vscode.WorkspaceFolder[]): Promise<ModuleInfo[]> {
+    const discoveryOptions = {
+      excludedModules: this.options.excludedModules,
+      maxDepth: this.options.maxDepth,
+      includePatterns: this.options.includePatterns,
+      excludePatterns: this.options.excludePatterns,
+      caseInsensitive: this.options.caseInsensitiveExclusions ?? true,
+    };
     const discovered = await Promise.all(
       folders.flatMap((folder) =>
-        this.options.moduleRoots.map((moduleRoot) => discoverModules(folder, moduleRoot, excluded)),
+        this.options.moduleRoots.map(async (moduleRoot) => {
+          const roots = await resolveModuleRoots(folder, moduleRoot);
+          return Promise.all(roots.map((root) => discoverModules(folder, root, discoveryOptions)));
+        }),
       ),
     );
-    const modules = discovered.flat();
-    this.stateStore.setModules(modules);
-    this.pushState();
+    const results = discovered.flat();
+    this.excludedDirectories = results.flatMap((result) => result.excluded);
+    this.discoveryEmitter.fire();
+    return this.expandVariants(
+      Array.from(new Map(results.flatMap((result) => result.modules).map((module) => [module.id, module])).values()),
+    );
+  }
 
-    for (const moduleInfo of modules) {
+  /**
+   * Re-runs discovery and applies the difference: new modules are added and refreshed, removed ones
+   * dropped, and every other row keeps its state.
+   */
+  private async syncModules(): Promise<void> {
+    const modules = await this.discoverAllModules(vscode.workspace.workspaceFolders ?? []);
+    const added = this.stateStore.mergeModules(modules);
+    this.restoreRunHistory();
+    this.restoreCellWatches();
+    const moduleIds = new Set(modules.map((module) => module.id));
+    for (const moduleId of this.pipelines.keys()) {
+      if (!moduleIds.has(moduleId)) {
+        this.endPipeline(moduleId);
+      }
+    }
+    if (this.options.targetMode === 'auto') {
+      this.applyTargetColumns();
+    }
+    this.pushState();
+    const settings = this.getRunnerSettings();
+    for (const moduleInfo of added) {
       await this.refreshModule(moduleInfo, settings);
       this.pushState();
     }
+    this.pruneRunHistory();
+  }
+
+  get onDidDiscoverModules(): vscode.Event<void> {
+    return this.discoveryEmitter.event;
+  }
+
+  /** Fires whenever the dashboard state (modules, targets, results) was pushed to the view. */
+  get onDidChangeState(): vscode.Event<void> {
+    return this.stateEmitter.event;
+  }
+
+  /** Fires when a target started, finished or was blocked, after the state was updated. */
+  get onDidUpdateRun(): vscode.Event<TargetRunEvent> {
+    return this.runEmitter.event;
+  }
+
+  /** Fires when a coverage target finished, with the line coverage it reported. */
+  get onDidUpdateCoverage(): vscode.Event<CoverageUpdateEvent> {
+    return this.coverageEmitter.event;
+  }
+
+  /** Fires when a cppcheck target starts (with no findings) and when it finished. */
+  get onDidUpdateCppcheck(): vscode.Event<CppcheckUpdateEvent> {
+    return this.cppcheckEmitter.event;
+  }
+
+  /** Fires when a target starts (with no diagnostics) and when it finished, except for cppcheck targets. */
+  get onDidUpdateDiagnostics(): vscode.Event<DiagnosticsUpdateEvent> {
+    return this.diagnosticsEmitter.event;
+  }
+
+  getState(): DashboardState {
+    return this.stateStore.getState();
+  }
+
+  getExcludedDirectories(): ExcludedDirectory[] {
+    return this.excludedDirectories;
   }
 
   showDashboard(): void {
@@ -137,21 +504,19 @@ export class DashboardController implements vscode.Disposable {
     this.pushState();
   }
 
-  runAll(): void {
-    this.runAllQueues.clear();
-    this.runAllActive.clear();
+  runAll(sweepVariants = false): void {
+    this.endPipelines();
     const state = this.stateStore.getState();
     for (const moduleState of state.modules) {
+      if (!sweepVariants && !this.isInActiveVariant(moduleState)) {
+        continue;
+      }
       const availableTargets = state.targets
         .filter((target) => moduleState.availability[target.name])
         .map((target) => target.name);
-      if (availableTargets.length > 0) {
-        this.runAllQueues.set(moduleState.module.id, availableTargets);
-      }
-    }
-    for (const moduleId of this.runAllQueues.keys()) {
-      this.startNextRunAllTarget(moduleId);
+      this.startPipeline(moduleState.module, availableTargets);
     }
+    this.pushState();
   }
 
   async configureAllModules(): Promise<void> {
@@ -164,32 +529,44 @@ export class DashboardController implements vscode.Disposable {
     if (!selectedSettings) {
       return;
     }
+    const contexts: Array<{ module: ModuleInfo; context: BuildContext }> = [];
     for (const moduleState of modules) {
-      await this.removeOutDir(moduleState.module);
-      this.stateStore.setNeedsConfigure(moduleState.module.id, true);
+      const context = await this.resolveBuildContext(moduleState.module, true);
+      if (!context) {
+        return;
+      }
+      contexts.push({ module: moduleState.module, context });
+    }
+    for (const { module, context } of contexts) {
+      await this.removeBuildDir(module, context.buildDir);
+      this.stateStore.setNeedsConfigure(module.id, true);
     }
     this.pushState();
     await Promise.all(
-      modules.map(async (moduleState) => {
-        await this.configureAndDetect(moduleState.module, selectedSettings, false, true, false);
+      contexts.map(async ({ module, context }) => {
+        await this.configureAndDetect(module, selectedSettings, context, false, true, false);
         this.pushState();
       }),
     );
   }
 
   rerunFailed(): void {
-    const settings = this.getRunnerSettings();
-    for (const request of this.stateStore.getFailedTargets()) {
-      this.enqueueRun(request.module, request.target, settings);
+    const state = this.stateStore.getState();
+    for (const moduleState of state.modules) {
+      if (!this.isInActiveVariant(moduleState)) {
+        continue;
+      }
+      const targets = state.targets
+        .map((target) => target.name)
+        .filter((target) => ['failed', 'blocked'].includes(moduleState.runs[target]?.status));
+      this.startPipeline(moduleState.module, targets, { autoCloseOnSuccess: false, runInTerminal: true });
     }
+    this.pushState();
   }
 
   stopAll(): void {
     this.runner.stopAll();
-    this.runAllQueues.clear();
-    this.runAllActive.clear();
-    this.runModuleQueues.clear();
-    this.runModuleActive.clear();
+    this.endPipelines();
   }
 
   async clearAllTasks(): Promise<void> {
@@ -202,10 +579,7 @@ export class DashboardController implements vscode.Disposable {
     }
     await this.runner.clearAllTerminals({ closeAllTerminals: true });
     this.configureTaskNames.clear();
-    this.runAllQueues.clear();
-    this.runAllActive.clear();
-    this.runModuleQueues.clear();
-    this.runModuleActive.clear();
+    this.endPipelines();
   }
 
   runTargetForModule(moduleId: string): void {
@@ -213,7 +587,6 @@ export class DashboardController implements vscode.Disposable {
     if (!moduleState) {
       return;
     }
-    const settings = this.getRunnerSettings();
     const availableTargets = this.stateStore
       .getState()
       .targets.filter((target) => moduleState.availability[target.name])
@@ -225,32 +598,75 @@ export class DashboardController implements vscode.Disposable {
     for (const target of availableTargets) {
       this.stateStore.updateRun(moduleId, target, { status: 'running', startedAt });
     }
+    this.startPipeline(moduleState.module, availableTargets);
     this.pushState();
-    this.runModuleQueues.set(moduleId, [...availableTargets]);
-    this.runModuleActive.delete(moduleId);
-    this.startNextModuleTarget(moduleState.module, settings);
+  }
+
+  /**
+   * Runs the given targets of a module in dependency order, like Run All does for every target.
+   * Resolves once each of them has finished or was blocked, or is no longer going to run (stopped,
+   * or dropped by a pipeline started in the meantime).
+   */
+  runTargets(moduleId: string, targets: string[]): Promise<void> {
+    const moduleState = this.stateStore.getModuleState(moduleId);
+    const available = targets.filter((target) => moduleState?.availability[target]);
+    if (!moduleState || available.length === 0) {
+      return Promise.resolve();
+    }
+    const done = Promise.all(available.map((target) => this.waitForCell(moduleId, target)));
+    this.startPipeline(moduleState.module, available);
+    this.pushState();
+    return done.then(() => undefined);
+  }
+
+  /** Drops the queued runs of the given targets and terminates the running ones. */
+  stopTargets(moduleId: string, targets: string[]): void {
+    this.endPipeline(moduleId);
+    for (const target of targets) {
+      this.runner.stop(moduleId, target);
+    }
+    this.releaseIdleCells();
   }
 
   runTargetForAllModules(target: string): void {
     const settings = this.getRunnerSettings();
     for (const moduleState of this.stateStore.getState().modules) {
-      if (moduleState.availability[target]) {
+      if (moduleState.availability[target] && this.isInActiveVariant(moduleState)) {
         this.enqueueRun(moduleState.module, target, settings, { autoCloseOnSuccess: true, runInTerminal: false });
       }
     }
   }
 
+  /** Turns watch mode of a cell on or off: the target reruns whenever a file of its module changes. */
+  toggleWatch(moduleId: string, target: string): void {
+    const key = getCellKey(moduleId, target);
+    if (this.watchedCells.has(key)) {
+      this.watchedCells.delete(key);
+    } else {
+      this.watchedCells.add(key);
+    }
+    this.restoreCellWatches();
+    this.pushState();
+  }
+
   async configureModule(moduleId: string): Promise<void> {
     const moduleState = this.stateStore.getState().modules.find((state) => state.module.id === moduleId);
     if (!moduleState) {
       return;
     }
+    const context = await this.resolveBuildContext(moduleState.module, true);
+    if (!context) {
+      return;
+    }
     const settings = this.getRunnerSettings();
-    const selectedSettings = await this.pickGeneratorIfNeeded(moduleState.module.name, settings);
+    const selectedSettings =
+      context.configurePreset || this.getVariant(moduleState.module)?.buildSystem
+        ? settings
+        : await this.pickGeneratorIfNeeded(moduleState.module.name, settings);
     if (!selectedSettings) {
       return;
     }
-    await this.configureAndDetect(moduleState.module, selectedSettings, false, true);
+    await this.configureAndDetect(moduleState.module, selectedSettings, context, false, true);
     this.pushState();
   }
 
@@ -259,7 +675,8 @@ export class DashboardController implements vscode.Disposable {
     if (!moduleState) {
       return;
     }
-    await this.removeOutDir(moduleState.module);
+    await this.removeBuildDir(moduleState.module, moduleState.buildDir);
+    await this.context.workspaceState.update(this.getPresetSelectionKey(moduleId), undefined);
     this.stateStore.setNeedsConfigure(moduleId, true);
     this.pushState();
     await this.configureModule(moduleId);
@@ -267,20 +684,19 @@ export class DashboardController implements vscode.Disposable {
 
   private async refreshModule(moduleInfo: ModuleInfo, settings: RunnerSettings): Promise<void> {
     try {
-      if (!(await hasCMakeCache(moduleInfo.path))) {
+      const context = await this.resolveBuildContext(moduleInfo, false);
+      if (!(await hasCMakeCache(context.buildDir))) {
         this.stateStore.setNeedsConfigure(moduleInfo.id, true);
         this.stateStore.updateConfigure(moduleInfo.id, {
           status: 'idle',
           output: 'Configure required (missing CMake cache).',
           updatedAt: Date.now(),
         });
-        for (const target of this.stateStore.getState().targets) {
-          this.stateStore.setAvailability(moduleInfo.id, target.name, false);
-        }
+        this.setDetectedTargets(moduleInfo.id, []);
         return;
       }
 
-      await this.configureAndDetect(moduleInfo, settings, true, false);
+      await this.configureAndDetect(moduleInfo, settings, context, true, false);
     } catch (error) {
       this.stateStore.setNeedsConfigure(moduleInfo.id, true);
       this.stateStore.updateConfigure(moduleInfo.id, {
@@ -288,9 +704,7 @@ export class DashboardController implements vscode.Disposable {
         output: this.formatConfigureError(error),
         updatedAt: Date.now(),
       });
-      for (const target of this.stateStore.getState().targets) {
-        this.stateStore.setAvailability(moduleInfo.id, target.name, false);
-      }
+      this.setDetectedTargets(moduleInfo.id, []);
       console.error(`Failed to refresh module ${moduleInfo.name}`, error);
     }
   }
@@ -299,24 +713,112 @@ export class DashboardController implements vscode.Disposable {
     module: ModuleInfo,
     target: string,
     settings: RunnerSettings,
-    options: { autoCloseOnSuccess?: boolean; runInTerminal?: boolean } = {},
-  ): void {
+    options: RunOptions = {},
+  ): boolean {
     const moduleState = this.stateStore.getModuleState(module.id);
     if (!moduleState || !moduleState.availability[target]) {
-      return;
+      return false;
     }
-    const generator = moduleState.generator;
-    const useNinja = generator ? generator === 'Ninja' : settings.buildSystem !== 'make';
-    const makeJobs = settings.makeJobs === 'auto' ? os.cpus().length : settings.makeJobs;
-    const { autoCloseOnSuccess = false, runInTerminal = true } = options;
-    this.runner.enqueue({
+    const { autoCloseOnSuccess = false, runInTerminal = true, restart = false } = options;
+    const commandOptions = this.getCommandOptions(moduleState, target, settings);
+    // Seconds, from the most specific level that sets them: target, dashboard, then the global setting.
+    const timeout = commandOptions.definition?.timeout ?? this.options.timeout ?? settings.targetTimeout;
+    const noOutputTimeout =
+      commandOptions.definition?.noOutputTimeout ?? this.options.noOutputTimeout ?? settings.noOutputTimeout;
+    const request = {
+      ...commandOptions,
       module,
       target,
-      useNinja,
-      makeJobs,
       autoCloseOnSuccess,
       runInTerminal,
-    });
+      timeoutMs: timeout * 1000,
+      noOutputTimeoutMs: noOutputTimeout * 1000,
+      statusRules: mergeStatusRules(this.options.statusRules, commandOptions.definition?.statusRules),
+    };
+    if (restart) {
+      this.runner.restart(request);
+    } else {
+      this.runner.enqueue(request);
+    }
+    return true;
+  }
+
+  /**
+   * Installs a file watcher for every watched cell whose module is present and removes the others.
+   * Called whenever the module list changes so watches survive a refresh.
+   */
+  private restoreCellWatches(): void {
+    this.disposeCellWatches();
+    const watching = new Map<string, string[]>();
+    for (const key of this.watchedCells) {
+      const [moduleId, target] = parseCellKey(key);
+      const moduleState = this.stateStore.getModuleState(moduleId);
+      if (!moduleState) {
+        continue;
+      }
+      watching.set(moduleId, [...(watching.get(moduleId) ?? []), target]);
+      const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(moduleState.module.path, '**/*'));
+      const onChange = (uri: vscode.Uri) => this.handleWatchedChange(key, uri);
+      watcher.onDidChange(onChange);
+      watcher.onDidCreate(onChange);
+      watcher.onDidDelete(onChange);
+      this.cellWatches.set(key, { watcher });
+    }
+    for (const moduleState of this.stateStore.getState().modules) {
+      this.stateStore.setWatching(moduleState.module.id, watching.get(moduleState.module.id) ?? []);
+    }
+  }
+
+  private handleWatchedChange(key: string, uri: vscode.Uri): void {
+    const watch = this.cellWatches.get(key);
+    if (!watch) {
+      return;
+    }
+    const [moduleId, target] = parseCellKey(key);
+    const moduleState = this.stateStore.getModuleState(moduleId);
+    const filePath = path.resolve(uri.fsPath);
+    if (!moduleState) {
+      return;
+    }
+    const relative = path.relative(moduleState.module.path, filePath);
+    const isBuildOutput = this.stateStore
+      .getState()
+      .modules.some((state) => state.buildDir && isWithin(filePath, state.buildDir));
+    if (isBuildOutput || relative.split(path.sep).some((segment) => segment.startsWith('.'))) {
+      return;
+    }
+    if (watch.timer) {
+      clearTimeout(watch.timer);
+    }
+    watch.timer = setTimeout(() => {
+      watch.timer = undefined;
+      this.enqueueRun(moduleState.module, target, this.getRunnerSettings(), {
+        autoCloseOnSuccess: true,
+        runInTerminal: false,
+        restart: true,
+      });
+    }, WATCH_DEBOUNCE_MS);
+  }
+
+  private disposeCellWatches(): void {
+    for (const watch of this.cellWatches.values()) {
+      if (watch.timer) {
+        clearTimeout(watch.timer);
+      }
+      watch.watcher.dispose();
+    }
+    this.cellWatches.clear();
+  }
+
+  private getCommandOptions(moduleState: ModuleState, target: string, settings: RunnerSettings): TargetCommandOptions {
+    const generator = moduleState.generator;
+    return {
+      useNinja: generator ? generator === 'Ninja' : settings.buildSystem !== 'make',
+      makeJobs: settings.makeJobs === 'auto' ? os.cpus().length : settings.makeJobs,
+      buildDir: moduleState.buildDir ?? this.getModuleBuildDir(moduleState.module),
+      buildPreset: moduleState.presets?.build,
+      definition: this.stateStore.getState().targets.find((definition) => definition.name === target),
+    };
   }
 
   private handleWebviewMessage(message: WebviewMessage): void {
@@ -327,6 +829,12 @@ export class DashboardController implements vscode.Disposable {
       case 'runAll':
         this.runAll();
         break;
+      case 'runAllVariants':
+        this.runAll(true);
+        break;
+      case 'selectVariant':
+        this.selectVariant(message.variant);
+        break;
       case 'rerunFailed':
         this.rerunFailed();
         break;
@@ -342,6 +850,15 @@ export class DashboardController implements vscode.Disposable {
       case 'runTargetForModule':
         this.runTargetForModule(message.moduleId);
         break;
+      case 'toggleWatch':
+        this.toggleWatch(message.moduleId, message.target);
+        break;
+      case 'openLog':
+        void this.openLog(message.moduleId, message.target);
+        break;
+      case 'showTests':
+        void this.showFailingTests(message.moduleId, message.target);
+        break;
       case 'runTargetForAllModules':
         this.runTargetForAllModules(message.target);
         break;
@@ -368,6 +885,7 @@ export class DashboardController implements vscode.Disposable {
   private async configureAndDetect(
     moduleInfo: ModuleInfo,
     settings: RunnerSettings,
+    context: BuildContext,
     skipConfigure: boolean,
     updateStatus: boolean,
     runInTerminal: boolean = true,
@@ -378,23 +896,32 @@ export class DashboardController implements vscode.Disposable {
     }
 
     try {
-      const generator = await selectGenerator(settings.buildSystem, path.join(moduleInfo.path, 'out'));
+      const buildSystem = this.getVariant(moduleInfo)?.buildSystem ?? settings.buildSystem;
+      let generator: CMakeGenerator = await selectGenerator(buildSystem, context.buildDir);
+      const configureOptions = {
+        buildDir: context.buildDir,
+        buildSystem,
+        configurePreset: context.configurePreset,
+        cacheVariables: this.getCacheVariables(moduleInfo),
+      };
       let configureOutput = 'Skipped configure (existing CMake cache).';
       if (!skipConfigure) {
         if (updateStatus && runInTerminal) {
-          const taskName = `${moduleInfo.name}:configure`;
+          const taskName = getTaskName(moduleInfo, 'configure');
           this.configureTaskNames.set(moduleInfo.id, taskName);
-          const exitCode = await this.runConfigureTask(moduleInfo, generator);
+          await writeCodemodelQuery(context.buildDir);
+          const exitCode = await this.runConfigureTask(moduleInfo, getConfigureArgs(generator, configureOptions));
           configureOutput = `See terminal: ${taskName}`;
           if (exitCode !== 0) {
             const codeLabel = exitCode === undefined ? 'unknown' : String(exitCode);
             throw new Error(`Configure failed with exit code ${codeLabel}.`);
           }
         } else {
-          const configureResult = await ensureConfigured(moduleInfo.path, settings.buildSystem);
+          const configureResult = await ensureConfigured(moduleInfo.path, configureOptions);
           configureOutput = configureResult.output;
         }
       }
+      generator = (await detectExistingGenerator(context.buildDir)) ?? generator;
       this.stateStore.setModuleGenerator(moduleInfo.id, generator);
       this.stateStore.setNeedsConfigure(moduleInfo.id, false);
       if (updateStatus) {
@@ -405,10 +932,9 @@ export class DashboardController implements vscode.Disposable {
         });
         this.pushState();
       }
-      const targets = await detectTargets(moduleInfo.path, generator);
-      for (const target of this.stateStore.getState().targets) {
-        this.stateStore.setAvailability(moduleInfo.id, target.name, targets.has(target.name));
-      }
+      const detected = await detectTargets(moduleInfo.path, context.buildDir, generator);
+      this.stateStore.setTargetDetails(moduleInfo.id, detected.details);
+      this.setDetectedTargets(moduleInfo.id, detected.names);
     } catch (error) {
       if (updateStatus) {
         this.stateStore.updateConfigure(moduleInfo.id, {
@@ -419,9 +945,8 @@ export class DashboardController implements vscode.Disposable {
         this.pushState();
       }
       this.stateStore.setNeedsConfigure(moduleInfo.id, true);
-      for (const target of this.stateStore.getState().targets) {
-        this.stateStore.setAvailability(moduleInfo.id, target.name, false);
-      }
+      this.stateStore.setTargetDetails(moduleInfo.id, []);
+      this.setDetectedTargets(moduleInfo.id, []);
       if (!updateStatus) {
         throw error;
       }
@@ -475,99 +1000,282 @@ export class DashboardController implements vscode.Disposable {
     return null;
   }
 
-  private async removeOutDir(module: ModuleInfo): Promise<void> {
-    const outDir = path.join(module.path, 'out');
+  private async removeBuildDir(module: ModuleInfo, buildDir?: string): Promise<void> {
+    const target = path.resolve(buildDir ?? this.getModuleBuildDir(module));
+    const relative = path.relative(target, module.path);
+    // Never delete the module itself or one of its ancestors, whatever a preset or setting says.
+    if (!relative || !relative.startsWith('..')) {
+      console.error(`Refusing to remove build directory ${target} for ${module.name}`);
+      return;
+    }
     try {
-      await fs.rm(outDir, { recursive: true, force: true });
+      await fs.rm(target, { recursive: true, force: true });
     } catch (error) {
-      console.error(`Failed to remove out/ for ${module.name}`, error);
+      console.error(`Failed to remove build directory for ${module.name}`, error);
     }
   }
 
-  private enqueueRunById(moduleId: string, target: string): void {
-    const moduleState = this.stateStore.getState().modules.find((state) => state.module.id === moduleId);
-    if (!moduleState) {
-      return;
+  private getModuleBuildDir(moduleInfo: ModuleInfo): string {
+    const override = Object.entries(this.options.moduleBuildDirs ?? {}).find(([pattern]) =>
+      globToRegExp(pattern).test(moduleInfo.name),
+    );
+    const variantBuildDir = this.getVariant(moduleInfo)?.buildDir;
+    const template = variantBuildDir ?? override?.[1] ?? this.options.buildDir;
+    return resolveBuildDir(template, moduleInfo, { buildType: this.options.buildType }, variantBuildDir !== undefined);
+  }
+
+  private getCacheVariables(moduleInfo: ModuleInfo): Record<string, string> | undefined {
+    const variant = this.getVariant(moduleInfo);
+    const variables: Record<string, string> = {};
+    if (this.options.buildType) {
+      variables.CMAKE_BUILD_TYPE = this.options.buildType;
     }
-    this.enqueueRun(moduleState.module, target, this.getRunnerSettings());
+    if (variant?.toolchainFile) {
+      variables.CMAKE_TOOLCHAIN_FILE = path.resolve(
+        moduleInfo.path,
+        expandModuleVariables(variant.toolchainFile, moduleInfo, { buildType: this.options.buildType }),
+      );
+    }
+    for (const [name, value] of Object.entries(variant?.cacheVariables ?? {})) {
+      variables[name] = expandModuleVariables(value, moduleInfo, { buildType: this.options.buildType });
+    }
+    return Object.keys(variables).length > 0 ? variables : undefined;
   }
 
-  private startNextRunAllTarget(moduleId: string): void {
-    if (this.runAllActive.has(moduleId)) {
-      return;
+  private getVariant(moduleInfo: ModuleInfo): BuildVariant | undefined {
+    return moduleInfo.variant
+      ? this.options.variants?.find((variant) => variant.name === moduleInfo.variant)
+      : undefined;
+  }
+
+  private expandVariants(modules: ModuleInfo[]): ModuleInfo[] {
+    const variants = this.options.variants ?? [];
+    const names = variants.map((variant) => variant.name);
+    if (!this.activeVariant || !names.includes(this.activeVariant)) {
+      this.activeVariant = names[0];
     }
-    const queue = this.runAllQueues.get(moduleId);
-    if (!queue) {
-      return;
+    this.stateStore.setVariants(names, this.options.variantLayout ?? 'rows', this.activeVariant);
+    if (variants.length === 0) {
+      return modules;
     }
-    const moduleState = this.stateStore.getModuleState(moduleId);
-    if (!moduleState) {
-      this.runAllQueues.delete(moduleId);
+    return modules.flatMap((module) =>
+      variants.map((variant) => ({ ...module, id: `${module.id}@${variant.name}`, variant: variant.name })),
+    );
+  }
+
+  private isInActiveVariant(moduleState: ModuleState): boolean {
+    return (
+      this.options.variantLayout !== 'selector' ||
+      !moduleState.module.variant ||
+      moduleState.module.variant === this.activeVariant
+    );
+  }
+
+  private selectVariant(variant: string): void {
+    if (!this.options.variants?.some((item) => item.name === variant)) {
       return;
     }
-    while (queue.length > 0) {
-      const nextTarget = queue.shift();
-      if (!nextTarget) {
-        continue;
-      }
-      if (!moduleState.availability[nextTarget]) {
-        continue;
+    this.activeVariant = variant;
+    const state = this.stateStore.getState();
+    this.stateStore.setVariants(state.variants ?? [], state.variantLayout ?? 'rows', variant);
+    this.pushState();
+  }
+
+  private getPresetSelectionKey(moduleId: string): string {
+    return `targetsManager.presets:${this.name}:${moduleId}`;
+  }
+
+  // Without picking, a context is always resolved; only a cancelled pick yields `null`.
+  private resolveBuildContext(moduleInfo: ModuleInfo, allowPick: false): Promise<BuildContext>;
+  private resolveBuildContext(moduleInfo: ModuleInfo, allowPick: boolean): Promise<BuildContext | null>;
+  private async resolveBuildContext(moduleInfo: ModuleInfo, allowPick: boolean): Promise<BuildContext | null> {
+    const defaultContext: BuildContext = { buildDir: this.getModuleBuildDir(moduleInfo) };
+    const variant = this.getVariant(moduleInfo);
+    const configurePresetOption = variant?.configurePreset ?? this.options.configurePreset;
+    const buildPresetOption = variant?.buildPreset ?? this.options.buildPreset;
+    const presets =
+      configurePresetOption || buildPresetOption ? await loadModulePresets(moduleInfo.path) : undefined;
+    if (!presets) {
+      this.stateStore.setBuildContext(moduleInfo.id, defaultContext.buildDir);
+      return defaultContext;
+    }
+
+    const key = this.getPresetSelectionKey(moduleInfo.id);
+    const stored = this.context.workspaceState.get<PresetSelection>(key) ?? {};
+    const selection: PresetSelection = {};
+    if (configurePresetOption === PICK_PRESET) {
+      selection.configure = stored.configure ?? (allowPick ? await this.pickConfigurePreset(moduleInfo, presets) : undefined);
+      if (allowPick && !selection.configure) {
+        return null;
       }
-      this.runAllActive.set(moduleId, nextTarget);
-      this.enqueueRun(moduleState.module, nextTarget, this.getRunnerSettings(), {
-        autoCloseOnSuccess: true,
-        runInTerminal: false,
-      });
-      return;
+    } else if (presets.configurePresets.some((preset) => preset.name === configurePresetOption)) {
+      selection.configure = configurePresetOption;
+    }
+    if (buildPresetOption === PICK_PRESET) {
+      selection.build =
+        stored.build ?? (allowPick ? await this.pickBuildPreset(moduleInfo, presets, selection.configure) : undefined);
+    } else if (presets.buildPresets.some((preset) => preset.name === buildPresetOption)) {
+      selection.build = buildPresetOption;
+    }
+    if (allowPick) {
+      await this.context.workspaceState.update(key, selection);
+    }
+
+    const configureName =
+      selection.configure ?? presets.buildPresets.find((preset) => preset.name === selection.build)?.configurePreset;
+    const configurePreset = presets.configurePresets.find((preset) => preset.name === configureName);
+    const context: BuildContext = {
+      buildDir: configurePreset?.binaryDir ?? defaultContext.buildDir,
+      configurePreset: selection.configure,
+      buildPreset: selection.build,
+    };
+    this.stateStore.setBuildContext(moduleInfo.id, context.buildDir, selection);
+    return context;
+  }
+
+  private async pickConfigurePreset(moduleInfo: ModuleInfo, presets: ModulePresets): Promise<string | undefined> {
+    const selection = await vscode.window.showQuickPick(
+      presets.configurePresets
+        .filter((preset) => !preset.hidden)
+        .map((preset) => ({
+          label: preset.name,
+          description: preset.displayName,
+          detail: preset.description,
+        })),
+      { placeHolder: `Select CMake configure preset for ${moduleInfo.name}` },
+    );
+    return selection?.label;
+  }
+
+  private async pickBuildPreset(
+    moduleInfo: ModuleInfo,
+    presets: ModulePresets,
+    configurePreset?: string,
+  ): Promise<string | undefined> {
+    const candidates = presets.buildPresets.filter(
+      (preset) => !preset.hidden && (!configurePreset || preset.configurePreset === configurePreset),
+    );
+    if (candidates.length === 0) {
+      return undefined;
     }
-    this.runAllQueues.delete(moduleId);
+    const selection = await vscode.window.showQuickPick(
+      candidates.map((preset) => ({
+        label: preset.name,
+        description: preset.displayName,
+        detail: preset.description,
+      })),
+      { placeHolder: `Select CMake build preset for ${moduleInfo.name}` },
+    );
+    return selection?.label;
   }
 
-  private handleRunAllCompletion(moduleId: string, target: string): void {
-    const activeTarget = this.runAllActive.get(moduleId);
-    if (activeTarget !== target) {
+  private enqueueRunById(moduleId: string, target: string): void {
+    const moduleState = this.stateStore.getState().modules.find((state) => state.module.id === moduleId);
+    if (!moduleState) {
       return;
     }
-    this.runAllActive.delete(moduleId);
-    this.startNextRunAllTarget(moduleId);
+    this.enqueueRun(moduleState.module, target, this.getRunnerSettings());
   }
 
-  private startNextModuleTarget(module: ModuleInfo, settings: RunnerSettings): void {
-    if (this.runModuleActive.has(module.id)) {
+  private startPipeline(module: ModuleInfo, targets: string[], options?: RunOptions): void {
+    if (targets.length === 0) {
       return;
     }
-    const queue = this.runModuleQueues.get(module.id);
-    if (!queue) {
-      return;
+    this.pipelines.delete(module.id);
+    this.pipelines.set(module.id, {
+      pipeline: new ModulePipeline(targets, this.stateStore.getState().targets),
+      options: options ?? { autoCloseOnSuccess: true, runInTerminal: false },
+    });
+    this.advancePipeline(module);
+    // Cells of a replaced pipeline that the new one does not run are not going to finish.
+    this.releaseIdleCells();
+  }
+
+  private endPipeline(moduleId: string): void {
+    this.pipelines.delete(moduleId);
+    this.releaseIdleCells();
+  }
+
+  private endPipelines(): void {
+    this.pipelines.clear();
+    this.releaseIdleCells();
+  }
+
+  private waitForCell(moduleId: string, target: string): Promise<void> {
+    const key = getCellKey(moduleId, target);
+    return new Promise((resolve) => this.cellWaiters.set(key, [...(this.cellWaiters.get(key) ?? []), resolve]));
+  }
+
+  private releaseCell(moduleId: string, target: string): void {
+    const key = getCellKey(moduleId, target);
+    const waiters = this.cellWaiters.get(key) ?? [];
+    this.cellWaiters.delete(key);
+    for (const resolve of waiters) {
+      resolve();
     }
-    while (queue.length > 0) {
-      const nextTarget = queue.shift();
-      if (!nextTarget) {
-        continue;
+  }
+
+  /** Releases the waiters of cells that are neither running, queued, nor left in their module's pipeline. */
+  private releaseIdleCells(): void {
+    for (const key of [...this.cellWaiters.keys()]) {
+      const [moduleId, target] = parseCellKey(key);
+      const scheduled =
+        this.pipelines.get(moduleId)?.pipeline.includes(target) ||
+        this.runner.isScheduled(moduleId, target) ||
+        this.finishingCells.has(key);
+      if (!scheduled) {
+        this.releaseCell(moduleId, target);
       }
-      const moduleState = this.stateStore.getModuleState(module.id);
-      if (!moduleState?.availability[nextTarget]) {
-        continue;
+    }
+  }
+
+  private advancePipeline(module: ModuleInfo): void {
+    const entry = this.pipelines.get(module.id);
+    if (!entry) {
+      return;
+    }
+    const { pipeline, options } = entry;
+    const nextTarget = pipeline.next();
+    if (nextTarget) {
+      if (!this.enqueueRun(module, nextTarget, this.getRunnerSettings(), options)) {
+        // The target disappeared since the pipeline was planned; its dependents cannot run either.
+        this.handlePipelineCompletion(module.id, nextTarget, 'idle');
       }
-      this.runModuleActive.set(module.id, nextTarget);
-      this.enqueueRun(module, nextTarget, settings, { autoCloseOnSuccess: true, runInTerminal: false });
       return;
     }
-    this.runModuleQueues.delete(module.id);
+    this.markBlocked(module.id, pipeline.blockUnreachable());
+    if (pipeline.isDone) {
+      this.endPipeline(module.id);
+    }
   }
 
-  private handleRunModuleCompletion(moduleId: string, target: string): void {
-    const activeTarget = this.runModuleActive.get(moduleId);
-    if (activeTarget !== target) {
+  private handlePipelineCompletion(moduleId: string, target: string, status: TargetRunStatus): void {
+    const entry = this.pipelines.get(moduleId);
+    if (!entry || entry.pipeline.activeTarget !== target) {
       return;
     }
-    this.runModuleActive.delete(moduleId);
+    this.markBlocked(moduleId, entry.pipeline.complete(target, status));
     const moduleState = this.stateStore.getModuleState(moduleId);
     if (!moduleState) {
-      this.runModuleQueues.delete(moduleId);
+      this.endPipeline(moduleId);
       return;
     }
-    this.startNextModuleTarget(moduleState.module, this.getRunnerSettings());
+    this.advancePipeline(moduleState.module);
+  }
+
+  private markBlocked(moduleId: string, blocked: BlockedTarget[]): void {
+    const finishedAt = Date.now();
+    for (const item of blocked) {
+      this.stateStore.updateRun(moduleId, item.target, {
+        status: 'blocked',
+        blockedBy: item.blockedBy,
+        exitCode: undefined,
+        attempts: undefined,
+        finishedAt,
+      });
+      this.runEmitter.fire({ moduleId, target: item.target });
+      this.releaseCell(moduleId, item.target);
+    }
   }
 
   private revealConfigureOutput(moduleId: string): void {
@@ -575,7 +1283,7 @@ export class DashboardController implements vscode.Disposable {
     if (!moduleState) {
       return;
     }
-    const taskName = this.configureTaskNames.get(moduleId) ?? `${moduleState.module.name}:configure`;
+    const taskName = this.configureTaskNames.get(moduleId) ?? getTaskName(moduleState.module, 'configure');
     const terminal = vscode.window.terminals.find((item) => item.name === taskName);
     if (terminal) {
       terminal.show(true);
@@ -591,7 +1299,7 @@ export class DashboardController implements vscode.Disposable {
     if (!moduleState) {
       return;
     }
-    const taskName = `${moduleState.module.name}:${target}`;
+    const taskName = getTaskName(moduleState.module, target);
     const terminal = vscode.window.terminals.find((item) => item.name === taskName);
     if (terminal) {
       terminal.show(true);
@@ -600,8 +1308,8 @@ export class DashboardController implements vscode.Disposable {
     this.enqueueRun(moduleState.module, target, this.getRunnerSettings(), { autoCloseOnSuccess: false });
   }
 
-  private async runConfigureTask(moduleInfo: ModuleInfo, generator: string): Promise<number | undefined> {
-    const task = createConfigureTask(moduleInfo, generator);
+  private async runConfigureTask(moduleInfo: ModuleInfo, args: string[]): Promise<number | undefined> {
+    const task = createConfigureTask(moduleInfo, args);
     await vscode.tasks.executeTask(task);
     return new Promise((resolve) => {
       this.configureResolvers.set(moduleInfo.id, resolve);
@@ -646,20 +1354,589 @@ export class DashboardController implements vscode.Disposable {
 
   private pushState(): void {
     this.viewProvider.setState(this.stateStore.getState());
+    this.stateEmitter.fire();
+  }
+
+  /** Recomputes the command shown for each available cell of the given modules (all by default). */
+  private refreshCommands(moduleIds?: string[]): void {
+    const settings = this.getRunnerSettings();
+    const state = this.stateStore.getState();
+    for (const moduleState of state.modules) {
+      if (moduleIds && !moduleIds.includes(moduleState.module.id)) {
+        continue;
+      }
+      const commands = state.targets
+        .filter((target) => moduleState.availability[target.name])
+        .map((target): [string, string] => [
+          target.name,
+          formatTargetCommand(
+            getTargetCommand(moduleState.module, target.name, this.getCommandOptions(moduleState, target.name, settings)),
+          ),
+        ]);
+      this.stateStore.setCommands(moduleState.module.id, Object.fromEntries(commands));
+    }
   }
 
   private setupWatchers(): void {
+    this.clearWatchTimers();
     for (const watcher of this.watchers) {
       watcher.dispose();
     }
     this.watchers.length = 0;
 
-    // No file watchers configured for dashboard settings.
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const folder = folders[0];
+    if (this.options.targetsFile && folder) {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(folder, this.options.targetsFile),
+      );
+      const reload = () => void this.reloadTargets();
+      watcher.onDidChange(reload);
+      watcher.onDidCreate(reload);
+      watcher.onDidDelete(reload);
+      this.watchers.push(watcher);
+    }
+
+    for (const workspaceFolder of folders) {
+      for (const moduleRoot of this.options.moduleRoots) {
+        const pattern = moduleRoot === '.' ? '**' : `${moduleRoot.replace(/\/+$/, '')}/**`;
+        const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceFolder, pattern));
+        watcher.onDidCreate((uri) => this.handleModuleRootEvent(uri, 'create'));
+        watcher.onDidChange((uri) => this.handleModuleRootEvent(uri, 'change'));
+        watcher.onDidDelete((uri) => this.handleModuleRootEvent(uri, 'delete'));
+        this.watchers.push(watcher);
+      }
+
+      const cacheWatcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(workspaceFolder, '**/CMakeCache.txt'),
+      );
+      const onCacheEvent = (uri: vscode.Uri) => this.handleCMakeCacheEvent(uri);
+      cacheWatcher.onDidCreate(onCacheEvent);
+      cacheWatcher.onDidChange(onCacheEvent);
+      cacheWatcher.onDidDelete(onCacheEvent);
+      this.watchers.push(cacheWatcher);
+    }
+  }
+
+  private handleModuleRootEvent(uri: vscode.Uri, kind: 'create' | 'change' | 'delete'): void {
+    const filePath = path.resolve(uri.fsPath);
+    const modules = this.stateStore.getState().modules;
+    if (modules.some((moduleState) => moduleState.buildDir && isWithin(filePath, moduleState.buildDir))) {
+      return;
+    }
+    const owners = modules.filter(
+      (moduleState) => isWithin(filePath, moduleState.module.path) && filePath !== path.resolve(moduleState.module.path),
+    );
+    if (owners.length === 0) {
+      // Directories between the roots and the modules: modules may have appeared or disappeared.
+      if (kind !== 'change') {
+        this.scheduleModuleSync();
+      }
+      return;
+    }
+    const isModuleFile =
+      MODULE_FILES.includes(path.basename(filePath)) && path.dirname(filePath) === path.resolve(owners[0].module.path);
+    if (!isModuleFile) {
+      return;
+    }
+    if (kind === 'change') {
+      this.scheduleModuleRefresh(owners.map((moduleState) => moduleState.module.id));
+    } else {
+      this.scheduleModuleSync();
+    }
+  }
+
+  private handleCMakeCacheEvent(uri: vscode.Uri): void {
+    const buildDir = path.dirname(path.resolve(uri.fsPath));
+    const affected = this.stateStore
+      .getState()
+      .modules.filter((moduleState) => moduleState.buildDir && path.resolve(moduleState.buildDir) === buildDir);
+    this.scheduleModuleRefresh(affected.map((moduleState) => moduleState.module.id));
+  }
+
+  private scheduleModuleSync(): void {
+    if (this.moduleSyncTimer) {
+      clearTimeout(this.moduleSyncTimer);
+    }
+    this.moduleSyncTimer = setTimeout(() => {
+      this.moduleSyncTimer = undefined;
+      void this.syncModules();
+    }, WATCH_DEBOUNCE_MS);
+  }
+
+  private scheduleModuleRefresh(moduleIds: string[]): void {
+    for (const moduleId of moduleIds) {
+      const pending = this.moduleRefreshTimers.get(moduleId);
+      if (pending) {
+        clearTimeout(pending);
+      }
+      this.moduleRefreshTimers.set(
+        moduleId,
+        setTimeout(() => {
+          this.moduleRefreshTimers.delete(moduleId);
+          void this.refreshModuleById(moduleId);
+        }, WATCH_DEBOUNCE_MS),
+      );
+    }
+  }
+
+  private async refreshModuleById(moduleId: string): Promise<void> {
+    const moduleState = this.stateStore.getModuleState(moduleId);
+    // A configure in progress rewrites the cache itself and detects targets when it finishes.
+    if (!moduleState || moduleState.configure?.status === 'running') {
+      return;
+    }
+    await this.refreshModule(moduleState.module, this.getRunnerSettings());
+    this.pushState();
+  }
+
+  private clearWatchTimers(): void {
+    if (this.moduleSyncTimer) {
+      clearTimeout(this.moduleSyncTimer);
+      this.moduleSyncTimer = undefined;
+    }
+    for (const timer of this.moduleRefreshTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.moduleRefreshTimers.clear();
+  }
+
+  private async loadTargetDefinitions(): Promise<TargetDefinition[]> {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!this.options.targetsFile || !folder) {
+      return this.options.targets;
+    }
+    return loadTargets(folder, this.options.targetsFile, this.options.targetsListKey ?? 'targets', this.options.targets);
+  }
+
+  private async reloadTargets(): Promise<void> {
+    this.configuredTargets = await this.loadTargetDefinitions();
+    this.applyTargetColumns();
+    this.pushState();
+    this.pruneRunHistory();
+  }
+
+  private applyTargetColumns(): void {
+    if (this.options.targetMode !== 'auto') {
+      this.stateStore.setTargets(applyTargetDefaults(this.configuredTargets));
+      this.restoreRunHistory();
+      this.refreshCommands();
+      return;
+    }
+    const detected = this.stateStore.getState().modules.flatMap((moduleState) => moduleState.detectedTargets ?? []);
+    const selected = selectAutoTargets(detected, {
+      include: this.options.targetIncludePatterns ?? [],
+      exclude: this.options.targetExcludePatterns ?? DEFAULT_AUTO_TARGET_EXCLUDES,
+      order: this.options.targetOrder ?? 'alphabetical',
+      pinned: this.configuredTargets,
+    });
+    this.stateStore.setTargets(applyTargetDefaults(selected));
+    this.restoreRunHistory();
+    this.refreshCommands();
+  }
+
+  private async handleRunFinished(update: RunUpdate): Promise<void> {
+    const finishedAt = Date.now();
+    const source = getCellKey(update.moduleId, update.target);
+    // The start time identifies the run: a cell started again while these results are read has a new one.
+    const runToken = this.stateStore.getModuleState(update.moduleId)?.runs[update.target]?.startedAt;
+    const isCurrentRun = (): boolean =>
+      this.stateStore.getModuleState(update.moduleId)?.runs[update.target]?.startedAt === runToken;
+    const definition = this.stateStore.getState().targets.find((target) => target.name === update.target);
+    const rules = mergeStatusRules(this.options.statusRules, definition?.statusRules);
+    let result: StatusChange = { status: update.status, statusReason: update.statusReason };
+    this.finishingCells.add(source);
+    try {
+      const moduleState = this.stateStore.getModuleState(update.moduleId);
+      const startedAt = runToken ?? 0;
+      // Lines the status rules ignore are not parsed for diagnostics either.
+      const output = update.output ? filterIgnoredLines(update.output, rules) : update.output;
+      if (moduleState?.buildDir && definition?.kind === 'ctest') {
+        const report = await this.readFreshFile(getCTestReportPath(moduleState.buildDir, update.target), startedAt);
+        const results = report ? parseJUnitReport(report) : undefined;
+        if (isCurrentRun()) {
+          this.stateStore.setTestResults(update.moduleId, update.target, results);
+        }
+      } else {
+        this.stateStore.setTestResults(
+          update.moduleId,
+          update.target,
+          update.output ? parseUnityOutput(update.output) : undefined,
+        );
+      }
+      if (moduleState && definition && isCoverageTarget(definition)) {
+        const coverage = await this.loadCoverage(moduleState, definition, startedAt, update.output);
+        const files = coverage ? await this.resolveCoverageFiles(moduleState, coverage.files) : {};
+        if (isCurrentRun()) {
+          this.stateStore.setCoverage(update.moduleId, update.target, coverage?.summary);
+          this.coverageEmitter.fire({ source, files });
+        }
+        if (coverage) {
+          result = getCoverageStatus(result, coverage.summary, definition.coverage);
+        }
+      }
+      if (moduleState && definition && isCppcheckTarget(definition)) {
+        const findings = await this.loadCppcheckFindings(moduleState, definition, startedAt, output);
+        const resolved = await this.resolveFindingFiles(moduleState, findings ?? []);
+        if (isCurrentRun()) {
+          this.cppcheckEmitter.fire({ source, moduleName: getModuleDisplayName(moduleState), findings: resolved });
+        }
+        if (findings) {
+          result = getCppcheckStatus({ ...update, ...result }, findings);
+        }
+      } else if (moduleState) {
+        const diagnostics = await this.resolveDiagnosticFiles(moduleState, parseCompilerOutput(output ?? ''));
+        if (isCurrentRun()) {
+          this.diagnosticsEmitter.fire({
+            source,
+            moduleName: getModuleDisplayName(moduleState),
+            target: update.target,
+            diagnostics,
+          });
+        }
+        result = getDiagnosticsStatus(result, diagnostics, update.exitCode, rules);
+      }
+    } catch (error) {
+      console.error(`Failed to read the results of ${update.target}`, error);
+    } finally {
+      this.finishingCells.delete(source);
+    }
+    // A newer run of the cell reports its own status.
+    if (!isCurrentRun()) {
+      return;
+    }
+    if (result.status === 'warning' && rules?.warningsAsErrors) {
+      result = { status: 'failed', statusReason: `${result.statusReason ?? 'Warning'} (warnings treated as errors)` };
+    }
+    const { status, statusReason } = result;
+    const finished: RunUpdate = { ...update, status, statusReason };
+    this.stateStore.updateRun(update.moduleId, update.target, {
+      status,
+      exitCode: update.exitCode,
+      finishedAt,
+      timeoutReason: update.timeoutReason,
+      attempts: update.attempts,
+      statusReason,
+    });
+    void this.recordRun(finished);
+    this.handlePipelineCompletion(update.moduleId, update.target, status);
+    this.pushState();
+    this.runEmitter.fire({ moduleId: update.moduleId, target: update.target, output: update.output });
+    this.releaseCell(update.moduleId, update.target);
+  }
+
+  /** Reads a report written by a run, ignoring one left over from an earlier run. */
+  private async readFreshFile(file: string, startedAt: number): Promise<string | undefined> {
+    try {
+      const stat = await fs.stat(file);
+      if (stat.mtimeMs < startedAt) {
+        return undefined;
+      }
+      return await fs.readFile(file, 'utf8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Loads the coverage of a finished coverage target: from its configured report, else from a report
+   * at one of the usual places in the build directory, else from the summary in its output.
+   */
+  private async loadCoverage(
+    moduleState: ModuleState,
+    definition: TargetDefinition,
+    startedAt: number,
+    output?: string,
+  ): Promise<CoverageReport | undefined> {
+    const buildDir = moduleState.buildDir ?? moduleState.module.path;
+    const configured = definition.coverage?.report;
+    const candidates = configured
+      ? [
+          path.resolve(
+            buildDir,
+            expandModuleVariables(configured, moduleState.module, { buildDir, target: definition.name }),
+          ),
+        ]
+      : COVERAGE_REPORTS.map((name) => path.join(buildDir, name));
+    for (const candidate of candidates) {
+      const content = await this.readFreshFile(candidate, startedAt);
+      const report = content ? parseCoverageReport(candidate, content) : undefined;
+      if (report) {
+        return report;
+      }
+    }
+    const summary = output ? parseCoverageSummary(output) : undefined;
+    return summary ? { summary, files: {} } : undefined;
+  }
+
+  /** Maps the file paths of a coverage report to absolute paths of existing files. */
+  private async resolveCoverageFiles(
+    moduleState: ModuleState,
+    files: Record<string, FileCoverage>,
+  ): Promise<Record<string, FileCoverage>> {
+    const resolved: Record<string, FileCoverage> = {};
+    for (const [file, coverage] of Object.entries(files)) {
+      const candidate = await this.resolveSourceFile(moduleState, file);
+      if (candidate) {
+        resolved[candidate] = coverage;
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Loads the findings of a finished cppcheck target: from its configured XML report, else from a
+   * report at one of the usual places in the build directory, else from its output. Returns
+   * `undefined` when none of them could be read, so the run keeps the status it finished with.
+   */
+  private async loadCppcheckFindings(
+    moduleState: ModuleState,
+    definition: TargetDefinition,
+    startedAt: number,
+    output?: string,
+  ): Promise<CppcheckFinding[] | undefined> {
+    const buildDir = moduleState.buildDir ?? moduleState.module.path;
+    const configured = definition.cppcheck?.report;
+    const candidates = configured
+      ? [
+          path.resolve(
+            buildDir,
+            expandModuleVariables(configured, moduleState.module, { buildDir, target: definition.name }),
+          ),
+        ]
+      : CPPCHECK_REPORTS.map((name) => path.join(buildDir, name));
+    for (const candidate of candidates) {
+      const content = await this.readFreshFile(candidate, startedAt);
+      if (content && content.includes('<results')) {
+        return parseCppcheckXml(content);
+      }
+    }
+    return output ? parseCppcheckOutput(output) : undefined;
+  }
+
+  /** Maps the locations of cppcheck findings to absolute paths, preferring existing files. */
+  private async resolveFindingFiles(moduleState: ModuleState, findings: CppcheckFinding[]): Promise<CppcheckFinding[]> {
+    const resolve = this.createFileResolver(moduleState);
+    const result: CppcheckFinding[] = [];
+    for (const finding of findings) {
+      const related: CppcheckFinding['related'] = [];
+      for (const location of finding.related) {
+        related.push({ ...location, file: await resolve(location.file) });
+      }
+      result.push({ ...finding, location: { ...finding.location, file: await resolve(finding.location.file) }, related });
+    }
+    return result;
+  }
+
+  /** Maps the files of compiler diagnostics to absolute paths, preferring existing files. */
+  private async resolveDiagnosticFiles(
+    moduleState: ModuleState,
+    diagnostics: CompilerDiagnostic[],
+  ): Promise<CompilerDiagnostic[]> {
+    const resolve = this.createFileResolver(moduleState);
+    const result: CompilerDiagnostic[] = [];
+    for (const diagnostic of diagnostics) {
+      const notes: CompilerDiagnostic['notes'] = [];
+      for (const note of diagnostic.notes) {
+        notes.push({ ...note, file: await resolve(note.file) });
+      }
+      result.push({ ...diagnostic, file: await resolve(diagnostic.file), notes });
+    }
+    return result;
+  }
+
+  /**
+   * Returns a cached resolver for the paths in a tool's output. Paths that do not exist are taken as
+   * relative to the module.
+   */
+  private createFileResolver(moduleState: ModuleState): (file: string) => Promise<string> {
+    const resolved = new Map<string, string>();
+    return async (file) => {
+      let absolute = resolved.get(file);
+      if (!absolute) {
+        absolute = (await this.resolveSourceFile(moduleState, file)) ?? path.resolve(moduleState.module.path, file);
+        resolved.set(file, absolute);
+      }
+      return absolute;
+    };
+  }
+
+  /** Resolves a path written by a tool against the module, its build directory and the module root. */
+  private async resolveSourceFile(moduleState: ModuleState, file: string): Promise<string | undefined> {
+    const basePaths = [moduleState.module.path, moduleState.buildDir, moduleState.module.root].filter(
+      (value): value is string => Boolean(value),
+    );
+    const candidates = path.isAbsolute(file) ? [file] : basePaths.map((basePath) => path.resolve(basePath, file));
+    for (const candidate of candidates) {
+      if (await fs.stat(candidate).then((stat) => stat.isFile(), () => false)) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  /** Clears the diagnostics of a cell when it starts, so they are replaced by this run's. */
+  private clearRunDiagnostics(moduleId: string, target: string): void {
+    const moduleState = this.stateStore.getModuleState(moduleId);
+    if (!moduleState) {
+      return;
+    }
+    const definition = this.stateStore.getState().targets.find((entry) => entry.name === target);
+    const event = { source: getCellKey(moduleId, target), moduleName: getModuleDisplayName(moduleState) };
+    if (isCppcheckTarget(definition ?? { name: target })) {
+      this.cppcheckEmitter.fire({ ...event, findings: [] });
+    } else {
+      this.diagnosticsEmitter.fire({ ...event, target, diagnostics: [] });
+    }
+  }
+
+  private async recordRun(update: RunUpdate): Promise<void> {
+    const run = this.stateStore.getModuleState(update.moduleId)?.runs[update.target];
+    const finishedAt = run?.finishedAt ?? Date.now();
+    const startedAt = run?.startedAt ?? finishedAt;
+    let logFile: string | undefined;
+    if (update.output) {
+      try {
+        logFile = await this.logs.write(update.moduleId, update.target, startedAt, update.output);
+      } catch (error) {
+        console.error(`Failed to write the log of ${update.target}`, error);
+      }
+    }
+    this.history.record(update.moduleId, update.target, {
+      status: update.status,
+      exitCode: update.exitCode,
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt - startedAt,
+      attempts: update.attempts,
+      statusReason: update.statusReason,
+      outputTail: getOutputTail(update.output ?? ''),
+      logFile,
+    });
+    const current = this.stateStore.getModuleState(update.moduleId)?.runs[update.target];
+    if (logFile && current && !current.hasLog) {
+      this.stateStore.updateRun(update.moduleId, update.target, { ...current, hasLog: true });
+      this.pushState();
+    }
+  }
+
+  private async showFailingTests(moduleId: string, target: string): Promise<void> {
+    const moduleState = this.stateStore.getModuleState(moduleId);
+    const results = moduleState?.tests?.[target];
+    if (!moduleState || !results) {
+      return;
+    }
+    const failing = results.cases.filter((testCase) => testCase.status === 'failed');
+    if (failing.length === 0) {
+      vscode.window.showInformationMessage(
+        `All ${results.passed} tests of ${target} in ${moduleState.module.name} passed (${results.ignored} ignored).`,
+      );
+      return;
+    }
+    const picked = await vscode.window.showQuickPick(
+      failing.map((testCase) => ({
+        label: testCase.name,
+        description: testCase.file ? `${path.basename(testCase.file)}:${testCase.line}` : undefined,
+        detail: testCase.message,
+        testCase,
+      })),
+      { title: `${moduleState.module.name}: ${failing.length} failing tests in ${target}`, matchOnDetail: true },
+    );
+    if (!picked) {
+      return;
+    }
+    if (picked.testCase.file && picked.testCase.line) {
+      await openFileLocation(
+        { file: picked.testCase.file, line: picked.testCase.line },
+        [moduleState.module.path, moduleState.buildDir, moduleState.module.root].filter(
+          (value): value is string => Boolean(value),
+        ),
+      );
+    } else {
+      // Reports without source locations (such as CTest's) only have the output to show.
+      await this.openLog(moduleId, target);
+    }
+  }
+
+  private async openLog(moduleId: string, target: string): Promise<void> {
+    const moduleState = this.stateStore.getModuleState(moduleId);
+    if (!moduleState) {
+      return;
+    }
+    const entries = this.history.getEntries(moduleId, target);
+    if (!entries.some((entry) => entry.logFile)) {
+      vscode.window.showInformationMessage(`No captured output for ${target} in ${moduleState.module.name} yet.`);
+      return;
+    }
+    await this.logView.show({
+      title: `${moduleState.module.name}: ${target}`,
+      runs: entries.map((entry) => ({
+        label: `${new Date(entry.finishedAt).toLocaleString()} · ${entry.status} · ${(entry.durationMs / 1000).toFixed(1)}s`,
+        logFile: entry.logFile,
+      })),
+      basePaths: [moduleState.module.path, moduleState.buildDir, moduleState.module.root].filter(
+        (value): value is string => Boolean(value),
+      ),
+    });
+  }
+
+  /** Shows the last recorded result in cells that have not run since the dashboard was (re)built. */
+  private restoreRunHistory(): void {
+    for (const moduleState of this.stateStore.getState().modules) {
+      for (const [target, run] of Object.entries(moduleState.runs)) {
+        if (run.status !== 'idle' || run.finishedAt) {
+          continue;
+        }
+        const entries = this.history.getEntries(moduleState.module.id, target);
+        const latest = entries[0];
+        if (latest) {
+          this.stateStore.updateRun(moduleState.module.id, target, {
+            status: latest.status,
+            exitCode: latest.exitCode,
+            startedAt: latest.startedAt,
+            finishedAt: latest.finishedAt,
+            attempts: latest.attempts,
+            statusReason: latest.statusReason,
+            hasLog: entries.some((entry) => entry.logFile),
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Forgets the history and logs of modules and targets that are no longer on the dashboard. Detected
+   * target columns come and go with the build directories, so in auto mode only modules are checked.
+   * An empty discovery (nothing configured yet, a checkout in progress) is not taken as a removal.
+   */
+  private pruneRunHistory(): void {
+    const state = this.stateStore.getState();
+    if (state.modules.length === 0 || state.targets.length === 0) {
+      return;
+    }
+    const removed = this.history.prune(
+      state.modules.map((moduleState) => moduleState.module.id),
+      this.options.targetMode === 'auto' ? undefined : state.targets.map((target) => target.name),
+    );
+    for (const cell of removed) {
+      void this.logs.remove(cell.moduleId, cell.target);
+    }
+  }
+
+  private setDetectedTargets(moduleId: string, targets: Iterable<string>): void {
+    this.stateStore.setDetectedTargets(moduleId, targets);
+    if (this.options.targetMode === 'auto') {
+      this.applyTargetColumns();
+    } else {
+      this.refreshCommands([moduleId]);
+    }
   }
 
   private applySettings(): void {
     const settings = this.getRunnerSettings();
     this.runner.setMaxParallel(settings.maxParallel);
+    this.history.setLimit(settings.historyLimit);
+    this.logs.setLimit(settings.historyLimit);
     this.setupWatchers();
     void this.refresh();
   }
@@ -686,6 +1963,9 @@ export class DashboardController implements vscode.Disposable {
       buildSystem: config.get<BuildSystem>('buildSystem', 'auto'),
       makeJobs: normalizeMakeJobs(config.get<string | number>('makeJobs', 'auto')),
       maxParallel: config.get<number>('maxParallel', 4),
+      targetTimeout: config.get<number>('targetTimeout', 0),
+      noOutputTimeout: config.get<number>('noOutputTimeout', 0),
+      historyLimit: config.get<number>('historyLimit', DEFAULT_HISTORY_LIMIT),
     };
   }
 }
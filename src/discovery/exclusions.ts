@@ -0,0 +1,78 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { globToRegExp } from '../utils/glob';
+
+export const IGNORE_FILE = '.targetsignore';
+
+export type ExclusionSource = 'excludedModules' | 'excludePatterns' | 'includePatterns' | typeof IGNORE_FILE;
+
+export interface ExclusionRule {
+  pattern: string;
+  source: ExclusionSource;
+  matches(relativePath: string, name: string): boolean;
+}
+
+export interface ExcludedDirectory {
+  root: string;
+  path: string;
+  rule: string;
+  source: ExclusionSource;
+}
+
+/**
+ * Compiles exclusion patterns. `/regex/flags` is a regular expression tested against both the
+ * directory name and its path relative to the module root, a pattern containing `/` is a glob on
+ * that relative path, and anything else is a glob on the directory name alone.
+ */
+export function compileExclusionRules(
+  patterns: string[],
+  source: ExclusionSource,
+  options: { caseInsensitive: boolean; pathOnly?: boolean },
+): ExclusionRule[] {
+  const rules: ExclusionRule[] = [];
+  for (const raw of patterns) {
+    const pattern = raw.trim();
+    if (!pattern) {
+      continue;
+    }
+    const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    if (regexMatch) {
+      const flags = options.caseInsensitive && !regexMatch[2].includes('i') ? `${regexMatch[2]}i` : regexMatch[2];
+      try {
+        const regex = new RegExp(regexMatch[1], flags.replace(/[gy]/g, ''));
+        rules.push({
+          pattern,
+          source,
+          matches: (relativePath, name) => regex.test(name) || regex.test(relativePath),
+        });
+      } catch {
+        console.warn(`Ignoring invalid exclusion pattern: ${pattern}`);
+      }
+      continue;
+    }
+    const glob = globToRegExp(pattern.replace(/^\//, ''), options.caseInsensitive);
+    const matchPath = options.pathOnly || pattern.includes('/');
+    rules.push({
+      pattern,
+      source,
+      matches: (relativePath, name) => glob.test(matchPath ? relativePath : name),
+    });
+  }
+  return rules;
+}
+
+export async function loadIgnoreFile(rootPath: string): Promise<string[]> {
+  try {
+    const raw = await fs.readFile(path.join(rootPath, IGNORE_FILE), 'utf8');
+    return raw
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0 && !line.startsWith('#'));
+  } catch {
+    return [];
+  }
+}
+
+export function findExclusion(rules: ExclusionRule[], relativePath: string, name: string): ExclusionRule | undefined {
+  return rules.find((rule) => rule.matches(relativePath, name));
+}
@@ -3,10 +3,31 @@ import { Dirent } from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { ModuleInfo } from '../state/types';
+import { compileExclusionRules, ExcludedDirectory, findExclusion, IGNORE_FILE, loadIgnoreFile } from './exclusions';
+import { globToRegExp, hasGlobCharacters, matchesAnyGlob, toPosixPath } from '../utils/glob';
 
 const CMAKE_LISTS = 'CMakeLists.txt';
 const CUSTOM_TARGETS = 'custom_targets.cmake';
 
+/** Files whose presence makes a directory a module. */
+export const MODULE_FILES = [CMAKE_LISTS, CUSTOM_TARGETS];
+
+export const DEFAULT_MAX_DEPTH = 1;
+const MAX_ROOT_GLOBSTAR_DEPTH = 8;
+
+export interface DiscoveryOptions {
+  excludedModules: string[];
+  maxDepth?: number;
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  caseInsensitive?: boolean;
+}
+
+export interface DiscoveryResult {
+  modules: ModuleInfo[];
+  excluded: ExcludedDirectory[];
+}
+
 async function isModuleDirectory(dirPath: string): Promise<boolean> {
   try {
     const entries = await fs.readdir(dirPath, { withFileTypes: true });
@@ -16,37 +37,138 @@ async function isModuleDirectory(dirPath: string): Promise<boolean> {
   }
 }
 
-export async function discoverModules(
-  workspaceFolder: vscode.WorkspaceFolder,
-  modulesRoot: string,
-  excludedModules: Set<string>,
-): Promise<ModuleInfo[]> {
-  const rootPath = path.join(workspaceFolder.uri.fsPath, modulesRoot);
-  let entries: Dirent[] = [];
+async function isDirectory(dirPath: string): Promise<boolean> {
+  try {
+    const stat = await fs.stat(dirPath);
+    return stat.isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function listSubdirectories(dirPath: string): Promise<string[]> {
   try {
-    entries = await fs.readdir(rootPath, { withFileTypes: true });
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    return entries.filter((entry) => entry.isDirectory() && !entry.name.startsWith('.')).map((entry) => entry.name);
   } catch {
     return [];
   }
+}
 
-  const modules: ModuleInfo[] = [];
-  for (const entry of entries) {
-    if (!entry.isDirectory()) {
-      continue;
+/**
+ * Expands a module root that may contain glob segments (e.g. `components/*` or `boards/**`) into
+ * the workspace-relative directories it matches. Plain roots are returned as-is when they exist.
+ */
+export async function resolveModuleRoots(workspaceFolder: vscode.WorkspaceFolder, moduleRoot: string): Promise<string[]> {
+  const base = workspaceFolder.uri.fsPath;
+  const normalized = toPosixPath(moduleRoot.trim()).replace(/^\.\//, '').replace(/\/+$/, '');
+  if (!hasGlobCharacters(normalized)) {
+    return (await isDirectory(path.join(base, normalized))) ? [normalized] : [];
+  }
+
+  let candidates = [''];
+  for (const segment of normalized.split('/').filter(Boolean)) {
+    const next: string[] = [];
+    if (segment === '**') {
+      const expand = async (relative: string, depth: number): Promise<void> => {
+        next.push(relative);
+        if (depth >= MAX_ROOT_GLOBSTAR_DEPTH) {
+          return;
+        }
+        for (const child of await listSubdirectories(path.join(base, relative))) {
+          await expand(relative ? `${relative}/${child}` : child, depth + 1);
+        }
+      };
+      for (const candidate of candidates) {
+        await expand(candidate, 0);
+      }
+    } else if (hasGlobCharacters(segment)) {
+      const matcher = globToRegExp(segment);
+      for (const candidate of candidates) {
+        for (const child of await listSubdirectories(path.join(base, candidate))) {
+          if (matcher.test(child)) {
+            next.push(candidate ? `${candidate}/${child}` : child);
+          }
+        }
+      }
+    } else {
+      for (const candidate of candidates) {
+        const relative = candidate ? `${candidate}/${segment}` : segment;
+        if (await isDirectory(path.join(base, relative))) {
+          next.push(relative);
+        }
+      }
     }
-    if (excludedModules.has(entry.name)) {
-      continue;
+    candidates = Array.from(new Set(next));
+  }
+
+  return candidates.filter(Boolean).sort((a, b) => a.localeCompare(b));
+}
+
+export async function discoverModules(
+  workspaceFolder: vscode.WorkspaceFolder,
+  modulesRoot: string,
+  options: DiscoveryOptions,
+): Promise<DiscoveryResult> {
+  const rootPath = path.join(workspaceFolder.uri.fsPath, modulesRoot);
+  const maxDepth = Math.max(1, options.maxDepth ?? DEFAULT_MAX_DEPTH);
+  const includePatterns = options.includePatterns ?? [];
+  const caseInsensitive = options.caseInsensitive ?? true;
+  const rules = [
+    ...compileExclusionRules(options.excludedModules, 'excludedModules', { caseInsensitive }),
+    ...compileExclusionRules(options.excludePatterns ?? [], 'excludePatterns', { caseInsensitive, pathOnly: true }),
+    ...compileExclusionRules(await loadIgnoreFile(rootPath), IGNORE_FILE, { caseInsensitive }),
+  ];
+  const modules: ModuleInfo[] = [];
+  const excluded: ExcludedDirectory[] = [];
+
+  const visit = async (dirPath: string, depth: number): Promise<void> => {
+    let entries: Dirent[] = [];
+    try {
+      entries = await fs.readdir(dirPath, { withFileTypes: true });
+    } catch {
+      return;
     }
-    const modulePath = path.join(rootPath, entry.name);
-    if (await isModuleDirectory(modulePath)) {
-      modules.push({
-        id: `${workspaceFolder.uri.fsPath}:${modulesRoot}:${entry.name}`,
-        name: entry.name,
-        path: modulePath,
-        workspaceFolder,
-      });
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('.')) {
+        continue;
+      }
+      const modulePath = path.join(dirPath, entry.name);
+      const relativePath = toPosixPath(path.relative(rootPath, modulePath));
+      const rule = findExclusion(rules, relativePath, entry.name);
+      if (rule) {
+        excluded.push({ root: modulesRoot, path: relativePath, rule: rule.pattern, source: rule.source });
+        continue;
+      }
+      if (await isModuleDirectory(modulePath)) {
+        // A module owns its whole subtree (build dirs, vendored sources), so it is never searched further.
+        if (includePatterns.length > 0 && !matchesAnyGlob(relativePath, includePatterns, caseInsensitive)) {
+          excluded.push({
+            root: modulesRoot,
+            path: relativePath,
+            rule: includePatterns.join(', '),
+            source: 'includePatterns',
+          });
+        } else {
+          modules.push({
+            id: `${workspaceFolder.uri.fsPath}:${modulesRoot}:${relativePath}`,
+            name: relativePath,
+            path: modulePath,
+            root: modulesRoot,
+            workspaceFolder,
+          });
+        }
+        continue;
+      }
+      if (depth < maxDepth) {
+        await visit(modulePath, depth + 1);
+      }
     }
-  }
+  };
 
-  return modules.sort((a, b) => a.name.localeCompare(b.name));
+  await visit(rootPath, 1);
+  return {
+    modules: modules.sort((a, b) => a.name.localeCompare(b.name)),
+    excluded: excluded.sort((a, b) => a.path.localeCompare(b.path)),
+  };
 }
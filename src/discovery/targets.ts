@@ -1,7 +1,20 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { TargetDefinition } from '../state/types';
+import {
+  ClassifiedStatus,
+  CoverageOptions,
+  CoverageThresholds,
+  CppcheckOptions,
+  CTestFilter,
+  RetryPolicy,
+  StatusRules,
+  TARGET_GROUPS,
+  TARGET_KINDS,
+  TargetDefinition,
+  TargetGroup,
+  TargetKind,
+} from '../state/types';
 
 export const DEFAULT_ALL_TEST_TARGETS = [
   'format',
@@ -27,37 +40,427 @@ export const DEFAULT_REPORT_TARGETS = ['ccr', 'ccmr'];
 
 export const DEFAULT_FORMAT_TARGETS = ['format', 'format_test'];
 
-interface TargetsFile {
-  targets?: string[];
-  all_test_targets?: string[];
-  test?: string[];
-  hw?: string[];
-  hw_test?: string[];
-  ci?: string[];
-  reports?: string[];
-  format?: string[];
+// Groups and dependencies of the conventional targets, applied where a definition does not set its own.
+const DEFAULT_TARGET_DETAILS: Record<string, Pick<TargetDefinition, 'group' | 'dependsOn'>> = {
+  format: { group: 'format' },
+  format_test: { group: 'format' },
+  format_check: { group: 'format' },
+  all: { group: 'test' },
+  run: { group: 'test', dependsOn: ['all'] },
+  cppcheck: { group: 'analysis' },
+  ccm: { group: 'analysis' },
+  ccmr: { group: 'analysis' },
+  ccc: { group: 'coverage', dependsOn: ['run'] },
+  ccr: { group: 'coverage', dependsOn: ['run'] },
+  ccca: { group: 'coverage', dependsOn: ['run'] },
+  ccra: { group: 'coverage', dependsOn: ['run'] },
+  flash: { group: 'hardware', dependsOn: ['all'] },
+  reset: { group: 'hardware' },
+  erase: { group: 'hardware' },
+};
+
+const isTargetGroup = (value: unknown): value is TargetGroup =>
+  typeof value === 'string' && (TARGET_GROUPS as readonly string[]).includes(value);
+
+const isTargetKind = (value: unknown): value is TargetKind =>
+  typeof value === 'string' && (TARGET_KINDS as readonly string[]).includes(value);
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const optionalSeconds = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+
+const compilePattern = (pattern: string, label: string): RegExp | undefined => {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    console.warn(`Ignoring invalid ${label} pattern: ${pattern}`);
+    return undefined;
+  }
+};
+
+const normalizeRetryPolicy = (value: unknown): RetryPolicy | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  const record = value as Record<string, unknown>;
+  const maxAttempts = typeof record.maxAttempts === 'number' ? Math.floor(record.maxAttempts) : 0;
+  if (maxAttempts < 2) {
+    return undefined;
+  }
+  const policy: RetryPolicy = { maxAttempts };
+  const backoff = optionalSeconds(record.backoff);
+  const exitCodes = Array.isArray(record.exitCodes)
+    ? record.exitCodes.filter((code): code is number => typeof code === 'number' && Number.isInteger(code))
+    : [];
+  const outputPattern = optionalString(record.outputPattern);
+  if (backoff !== undefined) {
+    policy.backoff = backoff;
+  }
+  if (exitCodes.length > 0) {
+    policy.exitCodes = exitCodes;
+  }
+  if (outputPattern && compilePattern(outputPattern, 'retry output')) {
+    policy.outputPattern = outputPattern;
+  }
+  return policy;
+};
+
+const normalizeCTestFilter = (value: unknown): CTestFilter | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  const record = value as Record<string, unknown>;
+  const filter: CTestFilter = {};
+  for (const key of ['labels', 'excludeLabels', 'regex', 'excludeRegex'] as const) {
+    const pattern = optionalString(record[key]);
+    if (pattern) {
+      filter[key] = pattern;
+    }
+  }
+  return Object.keys(filter).length > 0 ? filter : undefined;
+};
+
+const optionalPercent = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100 ? value : undefined;
+
+const normalizeCoverageThresholds = (value: unknown): CoverageThresholds | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  const record = value as Record<string, unknown>;
+  const thresholds: CoverageThresholds = {};
+  const line = optionalPercent(record.line);
+  const branch = optionalPercent(record.branch);
+  if (line !== undefined) {
+    thresholds.line = line;
+  }
+  if (branch !== undefined) {
+    thresholds.branch = branch;
+  }
+  return Object.keys(thresholds).length > 0 ? thresholds : undefined;
+};
+
+const normalizeCoverageOptions = (value: unknown): CoverageOptions | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  const record = value as Record<string, unknown>;
+  const options: CoverageOptions = {};
+  const report = optionalString(record.report);
+  const warnBelow = normalizeCoverageThresholds(record.warnBelow);
+  const failBelow = normalizeCoverageThresholds(record.failBelow);
+  if (report) {
+    options.report = report;
+  }
+  if (warnBelow) {
+    options.warnBelow = warnBelow;
+  }
+  if (failBelow) {
+    options.failBelow = failBelow;
+  }
+  return options;
+};
+
+const normalizeCppcheckOptions = (value: unknown): CppcheckOptions | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  const report = optionalString((value as Record<string, unknown>).report);
+  return report ? { report } : {};
+};
+
+const CLASSIFIED_STATUSES: ClassifiedStatus[] = ['success', 'warning', 'failed'];
+
+const optionalPatterns = (value: unknown): RegExp[] | undefined =>
+  Array.isArray(value)
+    ? value.flatMap((pattern) => {
+        const compiled = typeof pattern === 'string' ? compilePattern(pattern, 'status') : undefined;
+        return compiled ? [compiled] : [];
+      })
+    : undefined;
+
+/**
+ * Normalizes status rules of a target or dashboard and compiles their patterns. Invalid regular
+ * expressions and exit code entries are dropped; an empty pattern list is kept, since it turns a
+ * default rule off.
+ */
+export function normalizeStatusRules(value: unknown): StatusRules | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  const record = value as Record<string, unknown>;
+  const rules: StatusRules = {};
+  const failurePatterns = optionalPatterns(record.failurePatterns);
+  const warningPatterns = optionalPatterns(record.warningPatterns);
+  const ignorePatterns = optionalPatterns(record.ignorePatterns);
+  const exitCodes =
+    record.exitCodes && typeof record.exitCodes === 'object' && !Array.isArray(record.exitCodes)
+      ? Object.fromEntries(
+          Object.entries(record.exitCodes as Record<string, unknown>).filter(
+            (entry): entry is [string, ClassifiedStatus] =>
+              /^-?\d+$/.test(entry[0]) && (CLASSIFIED_STATUSES as unknown[]).includes(entry[1]),
+          ),
+        )
+      : {};
+  if (failurePatterns) {
+    rules.failurePatterns = failurePatterns;
+  }
+  if (warningPatterns) {
+    rules.warningPatterns = warningPatterns;
+  }
+  if (ignorePatterns && ignorePatterns.length > 0) {
+    rules.ignorePatterns = ignorePatterns;
+  }
+  if (Object.keys(exitCodes).length > 0) {
+    rules.exitCodes = exitCodes;
+  }
+  if (record.warningsAsErrors === true) {
+    rules.warningsAsErrors = true;
+  }
+  return Object.keys(rules).length > 0 ? rules : undefined;
+}
+
+const optionalStringList = (value: unknown): string[] | undefined => {
+  const list = (Array.isArray(value) ? value : [value]).flatMap((item) => optionalString(item) ?? []);
+  return list.length > 0 ? list : undefined;
+};
+
+/**
+ * Normalizes a configured target entry: either a plain name or an object with `name`, `label`,
+ * `description`, `group`, `icon`, `dependsOn`, the command settings (`command`, `args`, `env`,
+ * `cwd`), the timeouts in seconds, a `retry` policy, the target `kind` (with its `ctest` filter),
+ * `coverage` report settings, `cppcheck` report settings and
+ * `statusRules`.
+ * Entries without a name are dropped.
+ */
+export function normalizeTargetDefinition(entry: unknown): TargetDefinition | undefined {
+  const raw = typeof entry === 'string' ? { name: entry } : entry;
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+  const record = raw as Record<string, unknown>;
+  const name = optionalString(record.name);
+  if (!name) {
+    return undefined;
+  }
+  const definition: TargetDefinition = { name };
+  const label = optionalString(record.label);
+  const description = optionalString(record.description);
+  const group = isTargetGroup(record.group) ? record.group : undefined;
+  const icon = optionalString(record.icon);
+  const dependsOn = optionalStringList(record.dependsOn);
+  const command = optionalString(record.command);
+  const args = Array.isArray(record.args) ? record.args.filter((arg): arg is string => typeof arg === 'string') : [];
+  const cwd = optionalString(record.cwd);
+  const timeout = optionalSeconds(record.timeout);
+  const noOutputTimeout = optionalSeconds(record.noOutputTimeout);
+  const retry = normalizeRetryPolicy(record.retry);
+  const kind = isTargetKind(record.kind) ? record.kind : undefined;
+  const ctest = normalizeCTestFilter(record.ctest);
+  const coverage = normalizeCoverageOptions(record.coverage);
+  const cppcheck = normalizeCppcheckOptions(record.cppcheck);
+  const statusRules = normalizeStatusRules(record.statusRules);
+  const env =
+    record.env && typeof record.env === 'object' && !Array.isArray(record.env)
+      ? Object.fromEntries(
+          Object.entries(record.env as Record<string, unknown>).filter(
+            (entry): entry is [string, string] => typeof entry[1] === 'string',
+          ),
+        )
+      : {};
+  if (label) {
+    definition.label = label;
+  }
+  if (description) {
+    definition.description = description;
+  }
+  if (group) {
+    definition.group = group;
+  }
+  if (icon) {
+    definition.icon = icon;
+  }
+  if (dependsOn) {
+    definition.dependsOn = dependsOn;
+  }
+  if (command) {
+    definition.command = command;
+  }
+  if (args.length > 0) {
+    definition.args = args;
+  }
+  if (Object.keys(env).length > 0) {
+    definition.env = env;
+  }
+  if (cwd) {
+    definition.cwd = cwd;
+  }
+  if (timeout !== undefined) {
+    definition.timeout = timeout;
+  }
+  if (noOutputTimeout !== undefined) {
+    definition.noOutputTimeout = noOutputTimeout;
+  }
+  if (retry) {
+    definition.retry = retry;
+  }
+  if (kind) {
+    definition.kind = kind;
+  }
+  if (ctest) {
+    definition.ctest = ctest;
+  }
+  if (coverage) {
+    definition.coverage = coverage;
+  }
+  if (cppcheck) {
+    definition.cppcheck = cppcheck;
+  }
+  if (statusRules) {
+    definition.statusRules = statusRules;
+  }
+  return definition;
+}
+
+export function normalizeTargetDefinitions(entries: unknown[]): TargetDefinition[] {
+  return entries.flatMap((entry) => normalizeTargetDefinition(entry) ?? []);
+}
+
+/** Whether a target runs without a build system target of the same name (own command or CTest). */
+export function isStandaloneTarget(definition: TargetDefinition): boolean {
+  return Boolean(definition.command) || definition.kind === 'ctest';
+}
+
+/** Whether a target runs cppcheck, whose findings go to the extension's own diagnostics. */
+export function isCppcheckTarget(definition: TargetDefinition): boolean {
+  return definition.name === 'cppcheck' || Boolean(definition.cppcheck);
+}
+
+/** Whether a target reads a coverage report: it has `coverage` settings or is in the `coverage` group. */
+export function isCoverageTarget(definition: TargetDefinition): boolean {
+  const group = definition.group ?? DEFAULT_TARGET_DETAILS[definition.name]?.group;
+  return Boolean(definition.coverage) || group === 'coverage';
+}
+
+/**
+ * Fills in the default dependencies of the conventional targets. Default groups are only applied
+ * once the dashboard configures a group itself, so dashboards without groups keep their column
+ * order and flat header.
+ */
+export function applyTargetDefaults(definitions: TargetDefinition[]): TargetDefinition[] {
+  const grouped = definitions.some((definition) => definition.group);
+  return definitions.map((definition) => {
+    const defaults = DEFAULT_TARGET_DETAILS[definition.name];
+    const dependsOn = definition.dependsOn ?? defaults?.dependsOn;
+    const group = definition.group ?? (grouped ? defaults?.group : undefined);
+    return { ...definition, ...(dependsOn ? { dependsOn } : {}), ...(group ? { group } : {}) };
+  });
+}
+
+export type TargetMode = 'list' | 'auto';
+export type AutoTargetOrder = 'alphabetical' | 'detected';
+
+// CMake/generator internals and file-level targets reported by `ninja -t targets` or `help`.
+export const DEFAULT_AUTO_TARGET_EXCLUDES = [
+  '^(rebuild_cache|edit_cache|install|install/local|install/strip|list_install_components|help|clean|depend|preinstall|package|package_source)$',
+  '^cmake_',
+  '[/\\\\]',
+  '\\.(o|obj|i|ii|s|a|so|elf|exe|map|hex|bin|ninja|cmake|txt)$',
+];
+
+export interface AutoTargetOptions {
+  include: string[];
+  exclude: string[];
+  order: AutoTargetOrder;
+  pinned: TargetDefinition[];
+}
+
+const compilePatterns = (patterns: string[]): RegExp[] =>
+  patterns.flatMap((pattern) => {
+    try {
+      return [new RegExp(pattern)];
+    } catch {
+      console.warn(`Ignoring invalid target pattern: ${pattern}`);
+      return [];
+    }
+  });
+
+/**
+ * Builds the column set for dashboards in `auto` target mode from the union of targets detected
+ * across modules. Pinned (configured) targets come first in their configured order; those with
+ * their own command are kept even when no module defines them.
+ */
+export function selectAutoTargets(detected: Iterable<string>, options: AutoTargetOptions): TargetDefinition[] {
+  const include = compilePatterns(options.include);
+  const exclude = compilePatterns(options.exclude);
+  const seen = new Set<string>();
+  const selected: string[] = [];
+  for (const name of detected) {
+    if (seen.has(name)) {
+      continue;
+    }
+    seen.add(name);
+    if (include.length > 0 && !include.some((pattern) => pattern.test(name))) {
+      continue;
+    }
+    if (exclude.some((pattern) => pattern.test(name))) {
+      continue;
+    }
+    selected.push(name);
+  }
+
+  const pinned = options.pinned.filter(
+    (definition) => isStandaloneTarget(definition) || selected.includes(definition.name),
+  );
+  const pinnedNames = new Set(pinned.map((definition) => definition.name));
+  const rest = selected.filter((name) => !pinnedNames.has(name));
+  if (options.order === 'alphabetical') {
+    rest.sort((a, b) => a.localeCompare(b));
+  }
+  return [...pinned, ...rest.map((name) => ({ name }))];
+}
+
+export const TARGETS_LIST_KEYS = [
+  'targets',
+  'all_test_targets',
+  'test',
+  'hw',
+  'hw_test',
+  'ci',
+  'reports',
+  'format',
+] as const;
+
+export type TargetsListKey = (typeof TARGETS_LIST_KEYS)[number];
+
+type TargetsFile = Partial<Record<TargetsListKey, unknown[]>>;
+
+export function isTargetsListKey(value: unknown): value is TargetsListKey {
+  return typeof value === 'string' && (TARGETS_LIST_KEYS as readonly string[]).includes(value);
 }
 
 export async function loadTargets(
   workspaceFolder: vscode.WorkspaceFolder,
   targetsFile: string,
-  listKey: keyof TargetsFile,
-  defaultTargets: string[],
+  listKey: TargetsListKey,
+  defaultTargets: TargetDefinition[],
 ): Promise<TargetDefinition[]> {
   const filePath = path.join(workspaceFolder.uri.fsPath, targetsFile);
   try {
     const raw = await fs.readFile(filePath, 'utf8');
     const parsed = JSON.parse(raw) as TargetsFile;
-    if (Array.isArray(parsed.targets) && parsed.targets.length > 0) {
-      return parsed.targets.map((name) => ({ name }));
-    }
     const list = parsed[listKey];
     if (Array.isArray(list) && list.length > 0) {
-      return list.map((name) => ({ name }));
+      return normalizeTargetDefinitions(list);
+    }
+    if (Array.isArray(parsed.targets) && parsed.targets.length > 0) {
+      return normalizeTargetDefinitions(parsed.targets);
     }
   } catch {
     // fall back to defaults
   }
 
-  return defaultTargets.map((name) => ({ name }));
+  return defaultTargets;
 }
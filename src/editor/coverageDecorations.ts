@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { CoverageUpdateEvent, DashboardController } from '../dashboardController';
+import { FileCoverage } from '../parsers/coverage';
+
+const gutterIcon = (color: string): vscode.Uri =>
+  vscode.Uri.parse(
+    `data:image/svg+xml;utf8,${encodeURIComponent(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="6" height="16"><rect x="1" width="4" height="16" fill="${color}"/></svg>`,
+    )}`,
+  );
+
+/**
+ * Marks covered and uncovered lines in the gutter of open editors, from the coverage reports of
+ * every dashboard's coverage targets. A line counts as covered when any report covered it.
+ */
+export class CoverageDecorations implements vscode.Disposable {
+  private readonly coveredType = vscode.window.createTextEditorDecorationType({
+    gutterIconPath: gutterIcon('#2ea043'),
+    gutterIconSize: 'contain',
+    overviewRulerColor: 'rgba(46, 160, 67, 0.6)',
+    overviewRulerLane: vscode.OverviewRulerLane.Left,
+  });
+  private readonly uncoveredType = vscode.window.createTextEditorDecorationType({
+    gutterIconPath: gutterIcon('#f85149'),
+    gutterIconSize: 'contain',
+    overviewRulerColor: 'rgba(248, 81, 73, 0.8)',
+    overviewRulerLane: vscode.OverviewRulerLane.Left,
+  });
+  // Report files by source (dashboard, module and target), each keyed by absolute file path.
+  private readonly reports = new Map<string, Record<string, FileCoverage>>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private subscriptions: vscode.Disposable[] = [];
+  private visible = true;
+
+  constructor() {
+    this.disposables.push(
+      this.coveredType,
+      this.uncoveredType,
+      vscode.window.onDidChangeVisibleTextEditors((editors) => editors.forEach((editor) => this.decorate(editor))),
+    );
+  }
+
+  dispose(): void {
+    for (const subscription of [...this.subscriptions, ...this.disposables]) {
+      subscription.dispose();
+    }
+  }
+
+  setDashboards(controllers: DashboardController[]): void {
+    for (const subscription of this.subscriptions) {
+      subscription.dispose();
+    }
+    this.reports.clear();
+    this.subscriptions = controllers.map((controller) =>
+      controller.onDidUpdateCoverage((event) => this.update(`${controller.name}\n${event.source}`, event)),
+    );
+    this.decorateAll();
+  }
+
+  toggle(): void {
+    this.visible = !this.visible;
+    this.decorateAll();
+  }
+
+  private update(source: string, event: CoverageUpdateEvent): void {
+    if (Object.keys(event.files).length > 0) {
+      this.reports.set(source, event.files);
+    } else {
+      this.reports.delete(source);
+    }
+    this.decorateAll();
+  }
+
+  private decorateAll(): void {
+    vscode.window.visibleTextEditors.forEach((editor) => this.decorate(editor));
+  }
+
+  private decorate(editor: vscode.TextEditor): void {
+    const covered = new Set<number>();
+    const uncovered = new Set<number>();
+    if (this.visible && editor.document.uri.scheme === 'file') {
+      for (const files of this.reports.values()) {
+        const coverage = files[editor.document.uri.fsPath];
+        coverage?.covered.forEach((line) => covered.add(line));
+        coverage?.uncovered.forEach((line) => uncovered.add(line));
+      }
+    }
+    const toRanges = (lines: Iterable<number>) =>
+      [...lines]
+        .filter((line) => line >= 1 && line <= editor.document.lineCount)
+        .map((line) => new vscode.Range(line - 1, 0, line - 1, 0));
+    editor.setDecorations(this.coveredType, toRanges(covered));
+    editor.setDecorations(
+      this.uncoveredType,
+      toRanges([...uncovered].filter((line) => !covered.has(line))),
+    );
+  }
+}
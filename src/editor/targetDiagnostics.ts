@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import { DashboardController } from '../dashboardController';
+import { CompilerDiagnostic } from '../parsers/compiler';
+import { CppcheckFinding, CppcheckSeverity } from '../parsers/cppcheck';
+
+const SEVERITIES: Record<CppcheckSeverity, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  performance: vscode.DiagnosticSeverity.Warning,
+  portability: vscode.DiagnosticSeverity.Warning,
+  style: vscode.DiagnosticSeverity.Information,
+  information: vscode.DiagnosticSeverity.Hint,
+};
+
+const toRange = (line: number, column?: number): vscode.Range => {
+  const position = new vscode.Position(Math.max(line - 1, 0), Math.max((column ?? 1) - 1, 0));
+  // Without a column the whole line is marked; the editor clamps the end to the line length.
+  return new vscode.Range(position, column ? position : position.translate(0, Number.MAX_SAFE_INTEGER));
+};
+
+function fromCppcheckFinding(finding: CppcheckFinding, moduleName: string): vscode.Diagnostic {
+  const { location } = finding;
+  const diagnostic = new vscode.Diagnostic(
+    toRange(location.line, location.column),
+    finding.inconclusive ? `${finding.message} (inconclusive)` : finding.message,
+    SEVERITIES[finding.severity],
+  );
+  diagnostic.source = `cppcheck (${moduleName})`;
+  diagnostic.code = finding.cwe
+    ? {
+        value: finding.id,
+        target: vscode.Uri.parse(`https://cwe.mitre.org/data/definitions/${finding.cwe}.html`),
+      }
+    : finding.id;
+  if (finding.related.length > 0) {
+    diagnostic.relatedInformation = finding.related.map(
+      (related) =>
+        new vscode.DiagnosticRelatedInformation(
+          new vscode.Location(vscode.Uri.file(related.file), toRange(related.line, related.column)),
+          related.info ?? finding.message,
+        ),
+    );
+  }
+  return diagnostic;
+}
+
+function fromCompilerDiagnostic(entry: CompilerDiagnostic, source: string): vscode.Diagnostic {
+  const diagnostic = new vscode.Diagnostic(
+    toRange(entry.line, entry.column),
+    entry.message,
+    entry.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning,
+  );
+  diagnostic.source = source;
+  if (entry.option) {
+    diagnostic.code = entry.option;
+  }
+  if (entry.notes.length > 0) {
+    diagnostic.relatedInformation = entry.notes.map(
+      (note) =>
+        new vscode.DiagnosticRelatedInformation(
+          new vscode.Location(vscode.Uri.file(note.file), toRange(note.line, note.column)),
+          note.message,
+        ),
+    );
+  }
+  return diagnostic;
+}
+
+/**
+ * A diagnostic collection whose entries are kept per source (dashboard, module and target), so a
+ * rerun replaces only that cell's diagnostics, even where modules share files.
+ */
+class SourceDiagnostics implements vscode.Disposable {
+  private readonly collection: vscode.DiagnosticCollection;
+  // Diagnostics by source, each keyed by absolute file path.
+  private readonly sources = new Map<string, Map<string, vscode.Diagnostic[]>>();
+
+  constructor(name: string) {
+    this.collection = vscode.languages.createDiagnosticCollection(name);
+  }
+
+  dispose(): void {
+    this.collection.dispose();
+  }
+
+  clear(): void {
+    this.sources.clear();
+    this.collection.clear();
+  }
+
+  replace(source: string, entries: Array<[string, vscode.Diagnostic]>): void {
+    const affected = new Set(this.sources.get(source)?.keys());
+    const files = new Map<string, vscode.Diagnostic[]>();
+    for (const [file, diagnostic] of entries) {
+      files.set(file, [...(files.get(file) ?? []), diagnostic]);
+      affected.add(file);
+    }
+    if (files.size > 0) {
+      this.sources.set(source, files);
+    } else {
+      this.sources.delete(source);
+    }
+    for (const file of affected) {
+      const diagnostics = [...this.sources.values()].flatMap((entries) => entries.get(file) ?? []);
+      this.collection.set(vscode.Uri.file(file), diagnostics.length > 0 ? diagnostics : undefined);
+    }
+  }
+}
+
+/**
+ * Owns the extension's diagnostics: the compiler diagnostics printed by each run, and the findings
+ * of cppcheck targets in a `cppcheck` collection of their own.
+ */
+export class TargetDiagnostics implements vscode.Disposable {
+  private readonly compiler = new SourceDiagnostics('targetsManager');
+  private readonly cppcheck = new SourceDiagnostics('cppcheck');
+  private subscriptions: vscode.Disposable[] = [];
+
+  dispose(): void {
+    for (const subscription of this.subscriptions) {
+      subscription.dispose();
+    }
+    this.compiler.dispose();
+    this.cppcheck.dispose();
+  }
+
+  setDashboards(controllers: DashboardController[]): void {
+    for (const subscription of this.subscriptions) {
+      subscription.dispose();
+    }
+    this.compiler.clear();
+    this.cppcheck.clear();
+    this.subscriptions = controllers.flatMap((controller) => [
+      controller.onDidUpdateDiagnostics((event) =>
+        this.compiler.replace(
+          `${controller.name}\n${event.source}`,
+          event.diagnostics.map((entry) => [
+            entry.file,
+            fromCompilerDiagnostic(entry, `${event.moduleName}:${event.target}`),
+          ]),
+        ),
+      ),
+      controller.onDidUpdateCppcheck((event) =>
+        this.cppcheck.replace(
+          `${controller.name}\n${event.source}`,
+          event.findings.map((finding) => [finding.location.file, fromCppcheckFinding(finding, event.moduleName)]),
+        ),
+      ),
+    ]);
+  }
+}
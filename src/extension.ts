@@ -1,7 +1,16 @@
 import * as vscode from 'vscode';
-import { DashboardController, DashboardDefinition } from './dashboardController';
+import { BuildVariant, DashboardController, DashboardDefinition } from './dashboardController';
+import { CoverageDecorations } from './editor/coverageDecorations';
+import { TargetDiagnostics } from './editor/targetDiagnostics';
 import { MenuViewProvider } from './menu/menuView';
-import { DEFAULT_ALL_TEST_TARGETS } from './discovery/targets';
+import { DEFAULT_MAX_DEPTH } from './discovery/modules';
+import {
+  DEFAULT_ALL_TEST_TARGETS,
+  isTargetsListKey,
+  normalizeStatusRules,
+  normalizeTargetDefinitions,
+} from './discovery/targets';
+import { TestExplorer } from './testing/testExplorer';
 import { SettingsViewProvider, SettingsState } from './webview/settingsView';
 
 let dashboardControllers: DashboardController[] = [];
@@ -11,43 +20,128 @@ const DEFAULT_DASHBOARDS: DashboardDefinition[] = [
   {
     name: 'Targets Dashboard',
     moduleRoots: ['test'],
-    excludedModules: ['unity', 'cmock', 'CMock', 'Cmock', 'Unity', 'template'],
-    targets: DEFAULT_ALL_TEST_TARGETS,
+    excludedModules: ['unity', 'cmock', 'template'],
+    targets: DEFAULT_ALL_TEST_TARGETS.map((name) => ({ name })),
   },
 ];
 
+// Commas inside glob braces (e.g. `boards/{stm32,nrf}/test`) belong to the pattern, not the list.
+const splitRootList = (value: string): string[] => {
+  const entries: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '{') {
+      depth += 1;
+    } else if (char === '}' && depth > 0) {
+      depth -= 1;
+    } else if (char === ',' && depth === 0) {
+      entries.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  entries.push(current);
+  return entries.map((entry) => entry.trim()).filter(Boolean);
+};
+
 const normalizeModuleRoots = (moduleRoots: DashboardDefinition['moduleRoots'] | string | undefined): string[] => {
   if (typeof moduleRoots === 'string') {
-    return moduleRoots
-      .split(',')
-      .map((root) => root.trim())
-      .filter(Boolean);
+    return splitRootList(moduleRoots);
   }
   if (Array.isArray(moduleRoots)) {
-    return moduleRoots
-      .flatMap((root) =>
-        typeof root === 'string'
-          ? root
-              .split(',')
-              .map((entry) => entry.trim())
-              .filter(Boolean)
-          : [],
-      )
-      .filter(Boolean);
+    return Array.from(
+      new Set(moduleRoots.flatMap((root) => (typeof root === 'string' ? splitRootList(root) : []))),
+    );
   }
   return [];
 };
 
+const normalizeMaxDepth = (value: unknown): number => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  if (typeof parsed === 'number' && Number.isFinite(parsed) && parsed >= 1) {
+    return Math.floor(parsed);
+  }
+  return DEFAULT_MAX_DEPTH;
+};
+
+const normalizePatterns = (patterns: unknown): string[] =>
+  Array.isArray(patterns)
+    ? patterns.filter((pattern): pattern is string => typeof pattern === 'string' && pattern.trim().length > 0)
+    : [];
+
+const normalizeOptionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const normalizeTimeout = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+
+const normalizeStringRecord = (value: unknown): Record<string, string> | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  const entries = Object.entries(value).filter(
+    (entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].trim().length > 0,
+  );
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+const normalizeVariants = (variants: unknown): BuildVariant[] | undefined => {
+  if (!Array.isArray(variants)) {
+    return undefined;
+  }
+  const normalized = variants
+    .filter(
+      (variant): variant is BuildVariant =>
+        !!variant && typeof variant === 'object' && typeof variant.name === 'string' && variant.name.trim().length > 0,
+    )
+    .map(
+      (variant): BuildVariant => ({
+        name: variant.name.trim(),
+        buildDir: normalizeOptionalString(variant.buildDir),
+        buildSystem: ['auto', 'ninja', 'make'].includes(variant.buildSystem as string) ? variant.buildSystem : undefined,
+        toolchainFile: normalizeOptionalString(variant.toolchainFile),
+        cacheVariables: normalizeStringRecord(variant.cacheVariables),
+        configurePreset: normalizeOptionalString(variant.configurePreset),
+        buildPreset: normalizeOptionalString(variant.buildPreset),
+      }),
+    );
+  return normalized.length > 0 ? normalized : undefined;
+};
+
 const normalizeDashboards = (dashboards: DashboardDefinition[]): DashboardDefinition[] =>
   dashboards
     .filter((dashboard) => typeof dashboard.name === 'string' && dashboard.name.trim().length > 0)
-    .map((dashboard) => ({
+    .map((dashboard): DashboardDefinition => ({
       name: dashboard.name.trim(),
       moduleRoots: normalizeModuleRoots(dashboard.moduleRoots),
       excludedModules: Array.isArray(dashboard.excludedModules)
         ? dashboard.excludedModules.filter(Boolean)
         : DEFAULT_DASHBOARDS[0].excludedModules,
-      targets: Array.isArray(dashboard.targets) ? dashboard.targets.filter(Boolean) : [],
+      targets: Array.isArray(dashboard.targets) ? normalizeTargetDefinitions(dashboard.targets) : [],
+      maxDepth: normalizeMaxDepth(dashboard.maxDepth),
+      includePatterns: normalizePatterns(dashboard.includePatterns),
+      excludePatterns: normalizePatterns(dashboard.excludePatterns),
+      targetsFile: normalizeOptionalString(dashboard.targetsFile),
+      targetsListKey: isTargetsListKey(dashboard.targetsListKey) ? dashboard.targetsListKey : undefined,
+      targetMode: dashboard.targetMode === 'auto' ? 'auto' : 'list',
+      targetIncludePatterns: normalizePatterns(dashboard.targetIncludePatterns),
+      targetExcludePatterns: Array.isArray(dashboard.targetExcludePatterns)
+        ? normalizePatterns(dashboard.targetExcludePatterns)
+        : undefined,
+      targetOrder: dashboard.targetOrder === 'detected' ? 'detected' : 'alphabetical',
+      caseInsensitiveExclusions: dashboard.caseInsensitiveExclusions !== false,
+      configurePreset: normalizeOptionalString(dashboard.configurePreset),
+      buildPreset: normalizeOptionalString(dashboard.buildPreset),
+      buildDir: normalizeOptionalString(dashboard.buildDir),
+      moduleBuildDirs: normalizeStringRecord(dashboard.moduleBuildDirs),
+      buildType: normalizeOptionalString(dashboard.buildType),
+      variants: normalizeVariants(dashboard.variants),
+      variantLayout: dashboard.variantLayout === 'selector' ? 'selector' : 'rows',
+      timeout: normalizeTimeout(dashboard.timeout),
+      noOutputTimeout: normalizeTimeout(dashboard.noOutputTimeout),
+      statusRules: normalizeStatusRules(dashboard.statusRules),
     }))
     .filter((dashboard) => dashboard.moduleRoots.length > 0);
 
@@ -96,11 +190,17 @@ const getBuildSettings = (): Pick<SettingsState, 'buildSystem' | 'makeJobs' | 'm
 
 export function activate(context: vscode.ExtensionContext): void {
   const menuViewProvider = new MenuViewProvider();
+  const testExplorer = new TestExplorer();
+  const coverageDecorations = new CoverageDecorations();
+  const targetDiagnostics = new TargetDiagnostics();
   const settingsViewProvider = new SettingsViewProvider(
     context.extensionUri,
     () => ({
       ...getBuildSettings(),
       dashboards: getDashboards(),
+      exclusions: Object.fromEntries(
+        dashboardControllers.map((controller) => [controller.name, controller.getExcludedDirectories()]),
+      ),
     }),
     async (message) => {
       const folder = getWorkspaceFolder();
@@ -123,7 +223,11 @@ export function activate(context: vscode.ExtensionContext): void {
     },
   );
 
+  let controllerSubscriptions: vscode.Disposable[] = [];
   const updateDashboardControllers = () => {
+    for (const subscription of controllerSubscriptions) {
+      subscription.dispose();
+    }
     for (const controller of dashboardControllers) {
       controller.dispose();
     }
@@ -136,8 +240,14 @@ export function activate(context: vscode.ExtensionContext): void {
           title: dashboard.name,
         }),
     );
+    controllerSubscriptions = dashboardControllers.map((controller) =>
+      controller.onDidDiscoverModules(() => settingsViewProvider.refreshExclusions()),
+    );
     activeController = dashboardControllers[0];
     menuViewProvider.setDashboards(dashboardControllers.map((controller) => controller.name));
+    testExplorer.setDashboards(dashboardControllers);
+    coverageDecorations.setDashboards(dashboardControllers);
+    targetDiagnostics.setDashboards(dashboardControllers);
   };
 
   updateDashboardControllers();
@@ -145,6 +255,9 @@ export function activate(context: vscode.ExtensionContext): void {
   context.subscriptions.push(
     menuViewProvider,
     settingsViewProvider,
+    testExplorer,
+    coverageDecorations,
+    targetDiagnostics,
     vscode.window.registerTreeDataProvider('targetsManager.menu', menuViewProvider),
     vscode.commands.registerCommand('targetsManager.refresh', () => activeController?.refresh()),
     vscode.commands.registerCommand('targetsManager.runAll', () => activeController?.runAll()),
@@ -179,6 +292,7 @@ export function activate(context: vscode.ExtensionContext): void {
       controller.showDashboard();
     }),
     vscode.commands.registerCommand('targetsManager.openSettings', () => settingsViewProvider.show()),
+    vscode.commands.registerCommand('targetsManager.toggleCoverage', () => coverageDecorations.toggle()),
     vscode.workspace.onDidChangeConfiguration((event) => {
       if (event.affectsConfiguration('targetsManager.dashboards')) {
         updateDashboardControllers();
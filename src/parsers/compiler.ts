@@ -0,0 +1,65 @@
+import { stripAnsi } from '../utils/ansi';
+
+export type CompilerSeverity = 'error' | 'warning';
+
+export interface CompilerNote {
+  file: string;
+  line: number;
+  column?: number;
+  message: string;
+}
+
+export interface CompilerDiagnostic {
+  severity: CompilerSeverity;
+  message: string;
+  file: string;
+  line: number;
+  column?: number;
+  /** Warning option that enabled the diagnostic (e.g. `-Wunused-variable`). */
+  option?: string;
+  /** `note:` lines printed after the diagnostic. */
+  notes: CompilerNote[];
+}
+
+// `src/uart.c:12:5: warning: unused variable 'x' [-Wunused-variable]`, as printed by GCC and Clang.
+const DIAGNOSTIC_PATTERN = /^(\S.*?):(\d+):(?:(\d+):)?\s+(fatal error|error|warning|note):\s+(.*)$/;
+const OPTION_PATTERN = /\s+\[(-W[\w=+-]+|-fpermissive)\]$/;
+
+/**
+ * Extracts GCC/Clang diagnostics from build output. Notes are attached to the diagnostic before them;
+ * a diagnostic repeated verbatim (e.g. from a header compiled twice) is kept once.
+ */
+export function parseCompilerOutput(output: string): CompilerDiagnostic[] {
+  const diagnostics: CompilerDiagnostic[] = [];
+  const seen = new Set<string>();
+  let last: CompilerDiagnostic | undefined;
+  for (const line of stripAnsi(output).split(/\r?\n/)) {
+    const match = DIAGNOSTIC_PATTERN.exec(line);
+    if (!match) {
+      continue;
+    }
+    const location = { file: match[1], line: Number(match[2]), column: match[3] ? Number(match[3]) : undefined };
+    if (match[4] === 'note') {
+      last?.notes.push({ ...location, message: match[5] });
+      continue;
+    }
+    const option = OPTION_PATTERN.exec(match[5]);
+    const diagnostic: CompilerDiagnostic = {
+      ...location,
+      severity: match[4] === 'warning' ? 'warning' : 'error',
+      message: option ? match[5].slice(0, option.index) : match[5],
+      option: option?.[1],
+      notes: [],
+    };
+    const key = `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}:${diagnostic.severity}:${match[5]}`;
+    if (seen.has(key)) {
+      // The notes of a repeated diagnostic are repeated as well.
+      last = undefined;
+      continue;
+    }
+    seen.add(key);
+    diagnostics.push(diagnostic);
+    last = diagnostic;
+  }
+  return diagnostics;
+}
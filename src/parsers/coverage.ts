@@ -0,0 +1,182 @@
+import { CoverageCounter, CoverageSummary } from '../state/types';
+
+export interface FileCoverage {
+  covered: number[];
+  uncovered: number[];
+}
+
+export interface CoverageReport {
+  summary: CoverageSummary;
+  /** Line coverage per source file, keyed by the path as written in the report. */
+  files: Record<string, FileCoverage>;
+}
+
+const ATTRIBUTE_PATTERN = /([\w:-]+)\s*=\s*"([^"]*)"/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  for (let match = ATTRIBUTE_PATTERN.exec(source); match; match = ATTRIBUTE_PATTERN.exec(source)) {
+    attributes[match[1]] = match[2];
+  }
+  return attributes;
+}
+
+const addCounter = (counter: CoverageCounter | undefined, covered: number, total: number): CoverageCounter => ({
+  covered: (counter?.covered ?? 0) + covered,
+  total: (counter?.total ?? 0) + total,
+});
+
+function addLine(files: Record<string, FileCoverage>, file: string, line: number, hits: number): void {
+  const coverage = files[file] ?? { covered: [], uncovered: [] };
+  files[file] = coverage;
+  (hits > 0 ? coverage.covered : coverage.uncovered).push(line);
+}
+
+/** Parses an lcov tracefile (`.info`). */
+export function parseLcov(text: string): CoverageReport | undefined {
+  const files: Record<string, FileCoverage> = {};
+  const summary: CoverageSummary = {};
+  let file: string | undefined;
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const separator = line.indexOf(':');
+    const key = separator === -1 ? line : line.slice(0, separator);
+    const value = line.slice(separator + 1);
+    if (key === 'SF') {
+      file = value;
+      files[file] = files[file] ?? { covered: [], uncovered: [] };
+    } else if (key === 'DA' && file) {
+      const [lineNumber, hits] = value.split(',');
+      addLine(files, file, Number(lineNumber), Number(hits));
+    } else if (key === 'LF') {
+      summary.lines = addCounter(summary.lines, 0, Number(value));
+    } else if (key === 'LH') {
+      summary.lines = addCounter(summary.lines, Number(value), 0);
+    } else if (key === 'BRF') {
+      summary.branches = addCounter(summary.branches, 0, Number(value));
+    } else if (key === 'BRH') {
+      summary.branches = addCounter(summary.branches, Number(value), 0);
+    }
+  }
+  if (Object.keys(files).length === 0) {
+    return undefined;
+  }
+  if (!summary.lines) {
+    const all = Object.values(files);
+    summary.lines = {
+      covered: all.reduce((sum, coverage) => sum + coverage.covered.length, 0),
+      total: all.reduce((sum, coverage) => sum + coverage.covered.length + coverage.uncovered.length, 0),
+    };
+  }
+  return { summary, files };
+}
+
+interface GcovrJson {
+  line_covered?: number;
+  line_total?: number;
+  branch_covered?: number;
+  branch_total?: number;
+  files?: Array<{
+    file?: string;
+    filename?: string;
+    lines?: Array<{ line_number: number; count: number; gcovr_noncode?: boolean; branches?: Array<{ count: number }> }>;
+  }>;
+}
+
+/** Parses gcovr JSON: the summary format (`--json-summary`) or the detailed one (`--json`). */
+export function parseGcovrJson(text: string): CoverageReport | undefined {
+  let data: GcovrJson;
+  try {
+    data = JSON.parse(text) as GcovrJson;
+  } catch {
+    return undefined;
+  }
+  if (!data || typeof data !== 'object') {
+    return undefined;
+  }
+  const files: Record<string, FileCoverage> = {};
+  let lines: CoverageCounter | undefined;
+  let branches: CoverageCounter | undefined;
+  for (const entry of data.files ?? []) {
+    const file = entry.file ?? entry.filename;
+    if (!file || !entry.lines) {
+      continue;
+    }
+    for (const line of entry.lines) {
+      if (line.gcovr_noncode) {
+        continue;
+      }
+      addLine(files, file, line.line_number, line.count);
+      lines = addCounter(lines, line.count > 0 ? 1 : 0, 1);
+      for (const branch of line.branches ?? []) {
+        branches = addCounter(branches, branch.count > 0 ? 1 : 0, 1);
+      }
+    }
+  }
+  const summary: CoverageSummary = {
+    lines:
+      data.line_total !== undefined ? { covered: data.line_covered ?? 0, total: data.line_total } : lines,
+    branches:
+      data.branch_total !== undefined ? { covered: data.branch_covered ?? 0, total: data.branch_total } : branches,
+  };
+  return summary.lines || summary.branches ? { summary, files } : undefined;
+}
+
+/** Parses a Cobertura XML report, as written by `gcovr --xml`. */
+export function parseCoberturaXml(text: string): CoverageReport | undefined {
+  const root = /<coverage\b([^>]*)>/.exec(text);
+  if (!root) {
+    return undefined;
+  }
+  const attributes = parseAttributes(root[1]);
+  const files: Record<string, FileCoverage> = {};
+  const classPattern = /<class\b([^>]*)>([\s\S]*?)<\/class>/g;
+  for (let match = classPattern.exec(text); match; match = classPattern.exec(text)) {
+    const file = parseAttributes(match[1]).filename;
+    if (!file) {
+      continue;
+    }
+    const linePattern = /<line\b([^>]*?)\/?>/g;
+    for (let line = linePattern.exec(match[2]); line; line = linePattern.exec(match[2])) {
+      const lineAttributes = parseAttributes(line[1]);
+      addLine(files, file, Number(lineAttributes.number), Number(lineAttributes.hits));
+    }
+  }
+  const counter = (covered: string | undefined, total: string | undefined): CoverageCounter | undefined =>
+    total !== undefined ? { covered: Number(covered ?? 0), total: Number(total) } : undefined;
+  const summary: CoverageSummary = {
+    lines: counter(attributes['lines-covered'], attributes['lines-valid']),
+    branches: counter(attributes['branches-covered'], attributes['branches-valid']),
+  };
+  return summary.lines || summary.branches ? { summary, files } : undefined;
+}
+
+/**
+ * Reads the coverage summary that `gcovr` (`lines: 85.0% (170 out of 200)`) or `lcov --summary`
+ * (`lines......: 85.0% (170 of 200 lines)`) print to the terminal.
+ */
+export function parseCoverageSummary(output: string): CoverageSummary | undefined {
+  const summary: CoverageSummary = {};
+  const pattern = /^\s*(lines|branches)\b[.:\s]*[\d.]+%\s*\((\d+) (?:out )?of (\d+)/gim;
+  for (let match = pattern.exec(output); match; match = pattern.exec(output)) {
+    const counter = { covered: Number(match[2]), total: Number(match[3]) };
+    if (match[1].toLowerCase() === 'lines') {
+      summary.lines = counter;
+    } else {
+      summary.branches = counter;
+    }
+  }
+  return summary.lines || summary.branches ? summary : undefined;
+}
+
+/** Parses a coverage report file, picking the format from its name and content. */
+export function parseCoverageReport(fileName: string, content: string): CoverageReport | undefined {
+  if (fileName.endsWith('.json')) {
+    return parseGcovrJson(content);
+  }
+  if (fileName.endsWith('.xml') || content.trimStart().startsWith('<')) {
+    return parseCoberturaXml(content);
+  }
+  return parseLcov(content);
+}
@@ -0,0 +1,118 @@
+export type CppcheckSeverity = 'error' | 'warning' | 'style' | 'performance' | 'portability' | 'information';
+
+export interface CppcheckLocation {
+  file: string;
+  line: number;
+  column?: number;
+  info?: string;
+}
+
+export interface CppcheckFinding {
+  id: string;
+  severity: CppcheckSeverity;
+  message: string;
+  location: CppcheckLocation;
+  /** Further locations of the finding (e.g. where a null value comes from). */
+  related: CppcheckLocation[];
+  cwe?: number;
+  inconclusive?: boolean;
+}
+
+const SEVERITIES: CppcheckSeverity[] = ['error', 'warning', 'style', 'performance', 'portability', 'information'];
+const ATTRIBUTE_PATTERN = /([\w:-]+)\s*=\s*"([^"]*)"/g;
+// The default template:
+// `src/uart.c:12:5: warning: Variable 'x' is assigned a value that is never used. [unreadVariable]`
+const TEMPLATE_PATTERN =
+  /^(.+?):(\d+):(?:(\d+):)?\s*(error|warning|style|performance|portability|information):\s*(inconclusive:\s*)?(.*?)\s*\[([\w.-]+)\]\s*$/;
+
+const isSeverity = (value: string): value is CppcheckSeverity => (SEVERITIES as string[]).includes(value);
+
+// A character reference past the last code point is kept as written instead of throwing.
+const decodeCodePoint = (entity: string, code: number): string =>
+  code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (entity, code: string) => decodeCodePoint(entity, Number(code)))
+    .replace(/&amp;/g, '&');
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  for (let match = ATTRIBUTE_PATTERN.exec(source); match; match = ATTRIBUTE_PATTERN.exec(source)) {
+    attributes[match[1]] = decodeXml(match[2]);
+  }
+  return attributes;
+}
+
+/**
+ * Parses a cppcheck XML report (`--xml`, version 2). Findings without a location (such as
+ * `missingIncludeSystem`) are skipped.
+ */
+export function parseCppcheckXml(xml: string): CppcheckFinding[] {
+  const findings: CppcheckFinding[] = [];
+  const errorPattern = /<error\b([^>]*?)(?:\/>|>([\s\S]*?)<\/error>)/g;
+  for (let match = errorPattern.exec(xml); match; match = errorPattern.exec(xml)) {
+    const attributes = parseAttributes(match[1]);
+    const locations: CppcheckLocation[] = [];
+    const locationPattern = /<location\b([^>]*?)\/?>/g;
+    for (let location = locationPattern.exec(match[2] ?? ''); location; location = locationPattern.exec(match[2] ?? '')) {
+      const locationAttributes = parseAttributes(location[1]);
+      const line = Number(locationAttributes.line);
+      if (!locationAttributes.file || !line) {
+        continue;
+      }
+      const column = Number(locationAttributes.column);
+      locations.push({
+        file: locationAttributes.file,
+        line,
+        column: column > 0 ? column : undefined,
+        info: locationAttributes.info,
+      });
+    }
+    const severity = attributes.severity ?? '';
+    if (locations.length === 0 || !attributes.id || !isSeverity(severity)) {
+      continue;
+    }
+    const cwe = Number(attributes.cwe);
+    findings.push({
+      id: attributes.id,
+      severity,
+      message: attributes.verbose || attributes.msg || attributes.id,
+      location: locations[0],
+      related: locations.slice(1),
+      cwe: cwe > 0 ? cwe : undefined,
+      inconclusive: attributes.inconclusive === 'true' || undefined,
+    });
+  }
+  return findings;
+}
+
+/**
+ * Parses cppcheck terminal output in the default template. Findings that are not tied to a source
+ * line (such as `nofile:0:0: information: Unmatched suppression`) are skipped.
+ */
+export function parseCppcheckOutput(output: string): CppcheckFinding[] {
+  const findings: CppcheckFinding[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    const match = TEMPLATE_PATTERN.exec(line);
+    const lineNumber = Number(match?.[2]);
+    if (!match || !isSeverity(match[4]) || lineNumber < 1) {
+      continue;
+    }
+    const column = Number(match[3]);
+    findings.push({
+      id: match[7],
+      severity: match[4],
+      message: match[6],
+      location: { file: match[1], line: lineNumber, column: column > 0 ? column : undefined },
+      related: [],
+      inconclusive: match[5] ? true : undefined,
+    });
+  }
+  return findings;
+}
@@ -0,0 +1,74 @@
+import { TestCaseResult, TestCaseStatus, TestResults } from '../state/types';
+
+const TESTCASE_PATTERN = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+const ATTRIBUTE_PATTERN = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const MAX_MESSAGE_LENGTH = 2000;
+
+// A character reference past the last code point is kept as written instead of throwing.
+const decodeCodePoint = (entity: string, code: number): string =>
+  code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (entity, code: string) => decodeCodePoint(entity, Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (entity, code: string) => decodeCodePoint(entity, parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  for (let match = ATTRIBUTE_PATTERN.exec(source); match; match = ATTRIBUTE_PATTERN.exec(source)) {
+    attributes[match[1]] = decodeXml(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+}
+
+function getElement(body: string, name: string): { attributes: Record<string, string>; text: string } | undefined {
+  const match = new RegExp(`<${name}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${name}>)`).exec(body);
+  return match ? { attributes: parseAttributes(match[1]), text: decodeXml(match[2] ?? '').trim() } : undefined;
+}
+
+/**
+ * Extracts test cases from a JUnit XML report, as written by `ctest --output-junit` and most test
+ * runners. A test case with a `failure` or `error` element failed, one with `skipped` (or the CTest
+ * status `notrun`/`disabled`) is reported as ignored. Returns `undefined` when the report contains
+ * no test cases.
+ */
+export function parseJUnitReport(xml: string): TestResults | undefined {
+  const cases: TestCaseResult[] = [];
+  TESTCASE_PATTERN.lastIndex = 0;
+  for (let match = TESTCASE_PATTERN.exec(xml); match; match = TESTCASE_PATTERN.exec(xml)) {
+    const attributes = parseAttributes(match[1]);
+    const body = match[2] ?? '';
+    const failure = getElement(body, 'failure') ?? getElement(body, 'error');
+    const skipped = getElement(body, 'skipped');
+    let status: TestCaseStatus = 'passed';
+    if (failure || attributes.status === 'fail') {
+      status = 'failed';
+    } else if (skipped || attributes.status === 'notrun' || attributes.status === 'disabled') {
+      status = 'ignored';
+    }
+    const output = getElement(body, 'system-out')?.text;
+    const message =
+      status === 'failed' ? [failure?.attributes.message, failure?.text, output] : [skipped?.attributes.message];
+    const line = Number(attributes.line);
+    cases.push({
+      name: attributes.name ?? attributes.classname ?? 'unnamed',
+      status,
+      file: attributes.file || undefined,
+      line: Number.isInteger(line) && line > 0 ? line : undefined,
+      message: message.filter(Boolean).join('\n').slice(-MAX_MESSAGE_LENGTH) || undefined,
+    });
+  }
+  if (cases.length === 0) {
+    return undefined;
+  }
+  const failed = cases.filter((testCase) => testCase.status === 'failed').length;
+  const ignored = cases.filter((testCase) => testCase.status === 'ignored').length;
+  return { total: cases.length, passed: cases.length - failed - ignored, failed, ignored, cases };
+}
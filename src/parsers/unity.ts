@@ -0,0 +1,58 @@
+import { TestCaseResult, TestCaseStatus, TestResults } from '../state/types';
+import { stripAnsi } from '../utils/ansi';
+
+// `test/test_uart.c:42:test_rx_overflow:FAIL: Expected 1 Was 2`
+const RESULT_PATTERN = /^\s*(.+?):(\d+):([^:\s]+):(PASS|FAIL|IGNORE)(?::\s*(.*))?$/;
+// `50 Tests 2 Failures 1 Ignored`
+const SUMMARY_PATTERN = /^\s*(\d+) Tests (\d+) Failures (\d+) Ignored\s*$/;
+
+const STATUSES: Record<string, TestCaseStatus> = { PASS: 'passed', FAIL: 'failed', IGNORE: 'ignored' };
+
+/**
+ * Extracts Unity test results from the output of one or more test executables. The summary lines
+ * of all executables are added up; when an executable crashed before printing its summary, the
+ * counts of that run come from its result lines. Returns `undefined` when the output contains no
+ * Unity results at all.
+ */
+export function parseUnityOutput(output: string): TestResults | undefined {
+  const cases: TestCaseResult[] = [];
+  const totals = { total: 0, failed: 0, ignored: 0 };
+  // Result lines since the last summary, counted when no summary follows them.
+  let unsummarized: TestCaseResult[] = [];
+  let found = false;
+  for (const line of stripAnsi(output).split(/\r?\n/)) {
+    const result = RESULT_PATTERN.exec(line);
+    if (result) {
+      const testCase: TestCaseResult = {
+        name: result[3],
+        status: STATUSES[result[4]],
+        file: result[1],
+        line: Number(result[2]),
+        message: result[5]?.trim() || undefined,
+      };
+      cases.push(testCase);
+      unsummarized.push(testCase);
+      found = true;
+      continue;
+    }
+    const summary = SUMMARY_PATTERN.exec(line);
+    if (summary) {
+      totals.total += Number(summary[1]);
+      totals.failed += Number(summary[2]);
+      totals.ignored += Number(summary[3]);
+      unsummarized = [];
+      found = true;
+    }
+  }
+  if (!found) {
+    return undefined;
+  }
+  totals.total += unsummarized.length;
+  totals.failed += unsummarized.filter((testCase) => testCase.status === 'failed').length;
+  totals.ignored += unsummarized.filter((testCase) => testCase.status === 'ignored').length;
+  return {
+    ...totals,
+    passed: totals.total - totals.failed - totals.ignored,
+    cases,
+  };
+}
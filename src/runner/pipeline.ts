@@ -0,0 +1,111 @@
+import { TargetDefinition, TargetRunStatus } from '../state/types';
+
+export interface BlockedTarget {
+  target: string;
+  blockedBy: string;
+}
+
+/**
+ * Schedules the targets of one module as a dependency graph. Targets run one at a time (they share
+ * the module's build directory) in the given order, as soon as all of their dependencies that are
+ * part of the pipeline have succeeded. Dependencies outside the pipeline are treated as satisfied.
+ */
+export class ModulePipeline {
+  private readonly pending: string[];
+  private readonly dependencies = new Map<string, string[]>();
+  private readonly finished = new Map<string, TargetRunStatus>();
+  private active?: string;
+
+  constructor(targets: string[], definitions: TargetDefinition[]) {
+    this.pending = [...new Set(targets)];
+    for (const target of this.pending) {
+      const dependsOn = definitions.find((definition) => definition.name === target)?.dependsOn ?? [];
+      this.dependencies.set(
+        target,
+        dependsOn.filter((dependency) => dependency !== target && this.pending.includes(dependency)),
+      );
+    }
+  }
+
+  get activeTarget(): string | undefined {
+    return this.active;
+  }
+
+  get isDone(): boolean {
+    return !this.active && this.pending.length === 0;
+  }
+
+  /** Whether the target is running or still waiting to run. */
+  includes(target: string): boolean {
+    return this.active === target || this.pending.includes(target);
+  }
+
+  /**
+   * Picks the next target whose dependencies succeeded. Returns `undefined` while a target is
+   * running or when nothing is left.
+   */
+  next(): string | undefined {
+    if (this.active) {
+      return undefined;
+    }
+    const index = this.pending.findIndex((target) =>
+      (this.dependencies.get(target) ?? []).every((dependency) => this.isSatisfied(dependency)),
+    );
+    if (index === -1) {
+      return undefined;
+    }
+    const [target] = this.pending.splice(index, 1);
+    this.active = target;
+    return target;
+  }
+
+  /**
+   * Records the result of a target and returns every pending target that can no longer run because
+   * one of its (transitive) dependencies did not succeed.
+   */
+  complete(target: string, status: TargetRunStatus): BlockedTarget[] {
+    if (this.active === target) {
+      this.active = undefined;
+    }
+    this.finished.set(target, status);
+    const blocked: BlockedTarget[] = [];
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const pendingTarget of [...this.pending]) {
+        const blocker = (this.dependencies.get(pendingTarget) ?? []).find((dependency) => this.isBlocking(dependency));
+        if (blocker) {
+          this.pending.splice(this.pending.indexOf(pendingTarget), 1);
+          this.finished.set(pendingTarget, 'blocked');
+          blocked.push({ target: pendingTarget, blockedBy: blocker });
+          changed = true;
+        }
+      }
+    }
+    return blocked;
+  }
+
+  /**
+   * Blocks the remaining targets when none of them can start although nothing is running, which
+   * only happens when they depend on each other.
+   */
+  blockUnreachable(): BlockedTarget[] {
+    if (this.active) {
+      return [];
+    }
+    return this.pending.splice(0).map((target) => {
+      this.finished.set(target, 'blocked');
+      return { target, blockedBy: 'dependency cycle' };
+    });
+  }
+
+  private isSatisfied(target: string): boolean {
+    const status = this.finished.get(target);
+    return status === 'success' || status === 'warning';
+  }
+
+  private isBlocking(target: string): boolean {
+    const status = this.finished.get(target);
+    return status !== undefined && status !== 'success' && status !== 'warning';
+  }
+}
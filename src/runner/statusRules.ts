@@ -0,0 +1,82 @@
+import { ClassifiedStatus, StatusRules } from '../state/types';
+
+export interface StatusDecision {
+  status: ClassifiedStatus;
+  /** The rule that decided the status, e.g. `Exit code 2 (mapped to warning)`. */
+  reason: string;
+}
+
+// Used where a target does not set its own patterns. GCC/Clang style, case-insensitive.
+const DEFAULT_FAILURE_PATTERN = /(^|\s)(fatal\s+)?error\s*:/i;
+const DEFAULT_WARNING_PATTERN = /(^|\s)warning\s*:/i;
+const MAX_LINE_LENGTH = 120;
+
+const describeMatch = (pattern: RegExp, line: string): string => {
+  const trimmed = line.trim();
+  const shown = trimmed.length > MAX_LINE_LENGTH ? `${trimmed.slice(0, MAX_LINE_LENGTH)}…` : trimmed;
+  return `Output matched /${pattern.source}/: ${shown}`;
+};
+
+/**
+ * Combines the rules of the dashboard and the target; every field the target sets replaces the
+ * dashboard's, except `ignorePatterns`, which add up.
+ */
+export function mergeStatusRules(dashboard?: StatusRules, target?: StatusRules): StatusRules | undefined {
+  if (!dashboard || !target) {
+    return target ?? dashboard;
+  }
+  const merged: StatusRules = { ...dashboard, ...target };
+  if (dashboard.ignorePatterns && target.ignorePatterns) {
+    merged.ignorePatterns = [...dashboard.ignorePatterns, ...target.ignorePatterns];
+  }
+  if (dashboard.exitCodes && target.exitCodes) {
+    merged.exitCodes = { ...dashboard.exitCodes, ...target.exitCodes };
+  }
+  return merged;
+}
+
+/** Drops the output lines matching one of the rules' ignore patterns. */
+export function filterIgnoredLines(output: string, rules?: StatusRules): string {
+  const ignore = rules?.ignorePatterns ?? [];
+  if (ignore.length === 0) {
+    return output;
+  }
+  return output
+    .split(/\r?\n/)
+    .filter((line) => !ignore.some((pattern) => pattern.test(line)))
+    .join('\n');
+}
+
+/**
+ * Classifies a finished run. The exit code decides first (mapped through `exitCodes`, else non-zero
+ * fails); a run that did not fail is then checked line by line against the failure and warning
+ * patterns, skipping ignored lines. `warningsAsErrors` is left to the caller, which applies it after
+ * the diagnostics of the run are counted.
+ */
+export function classifyRun(exitCode: number | undefined, output: string, rules?: StatusRules): StatusDecision {
+  const mapped = exitCode === undefined ? undefined : rules?.exitCodes?.[String(exitCode)];
+  if (mapped === 'failed' || (!mapped && exitCode !== 0)) {
+    const reason = mapped ? `Exit code ${exitCode} (mapped to failed)` : `Exit code ${exitCode}`;
+    return { status: 'failed', reason: exitCode === undefined ? 'No exit code' : reason };
+  }
+  const base: StatusDecision = {
+    status: mapped ?? 'success',
+    reason: mapped ? `Exit code ${exitCode} (mapped to ${mapped})` : 'Exit code 0',
+  };
+  const lines = filterIgnoredLines(output, rules).split('\n');
+  for (const pattern of rules?.failurePatterns ?? [DEFAULT_FAILURE_PATTERN]) {
+    const line = lines.find((candidate) => pattern.test(candidate));
+    if (line !== undefined) {
+      return { status: 'failed', reason: describeMatch(pattern, line) };
+    }
+  }
+  if (base.status === 'success') {
+    for (const pattern of rules?.warningPatterns ?? [DEFAULT_WARNING_PATTERN]) {
+      const line = lines.find((candidate) => pattern.test(candidate));
+      if (line !== undefined) {
+        return { status: 'warning', reason: describeMatch(pattern, line) };
+      }
+    }
+  }
+  return base;
+}
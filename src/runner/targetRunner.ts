@@ -1,15 +1,21 @@
-import * as path from 'path';
 import * as vscode from 'vscode';
-import { ModuleInfo } from '../state/types';
-import { createTargetTask, getTargetCommand } from '../tasks/taskFactory';
+import { ModuleInfo, StatusRules, TargetDefinition } from '../state/types';
+import { createTargetTask, getTargetCommand, getTaskName } from '../tasks/taskFactory';
 import { clearRegisteredTaskTerminals } from '../tasks/taskRegistry';
 import { runCommandWithExitCode } from '../utils/exec';
+import { classifyRun } from './statusRules';
 
 export interface RunUpdate {
   moduleId: string;
   target: string;
-  status: 'running' | 'success' | 'warning' | 'failed';
+  status: 'running' | 'success' | 'warning' | 'failed' | 'timeout';
   exitCode?: number;
+  timeoutReason?: string;
+  attempts?: number;
+  /** The rule that decided the status. */
+  statusReason?: string;
+  /** Captured output of a finished run. */
+  output?: string;
 }
 
 export interface RunRequest {
@@ -17,39 +23,55 @@ export interface RunRequest {
   target: string;
   useNinja: boolean;
   makeJobs: string | number;
+  buildDir: string;
+  buildPreset?: string;
+  definition?: TargetDefinition;
   autoCloseOnSuccess: boolean;
   runInTerminal?: boolean;
+  /** Terminates the run after this many milliseconds; 0 or unset disables the limit. */
+  timeoutMs?: number;
+  /** Terminates the run when it prints nothing for this many milliseconds; 0 or unset disables it. */
+  noOutputTimeoutMs?: number;
+  /** Rules classifying the run from its exit code and output; the defaults when unset. */
+  statusRules?: StatusRules;
 }
 
-type RunningEntry = { kind: 'task'; execution: vscode.TaskExecution } | { kind: 'silent' };
+interface RunWatchdog {
+  request: RunRequest;
+  timeout?: NodeJS.Timeout;
+  idle?: NodeJS.Timeout;
+}
+
+const formatSeconds = (ms: number): string => `${Math.round(ms / 1000)}s`;
+
+type RunningEntry =
+  | { kind: 'task'; execution: vscode.TaskExecution }
+  | { kind: 'silent'; abort: AbortController }
+  // Waiting for the backoff of a retry; the slot stays taken so the run keeps its place.
+  | { kind: 'retry'; timer: NodeJS.Timeout; update: RunUpdate };
 
 export class TargetRunner implements vscode.Disposable {
   private readonly pending: RunRequest[] = [];
   private readonly running = new Map<string, RunningEntry>();
   private readonly taskNames = new Map<string, string>();
-  private readonly modulePaths = new Map<string, string>();
-  private readonly runStartedAt = new Map<string, number>();
   private readonly autoCloseOnSuccess = new Map<string, boolean>();
   private readonly taskOutput = new Map<string, string>();
+  // Output of a failed silent run that is being repeated in a terminal.
+  private readonly silentOutput = new Map<string, string>();
+  private readonly cancelled = new Set<string>();
+  // Runs ended by `stop`; they are reported as stopped instead of being classified.
+  private readonly stopped = new Set<string>();
+  private readonly restarts = new Map<string, RunRequest>();
+  private readonly watchdogs = new Map<string, RunWatchdog>();
+  private readonly timedOut = new Map<string, string>();
+  private readonly requests = new Map<string, RunRequest>();
+  private readonly attempts = new Map<string, number>();
   private readonly updates = new vscode.EventEmitter<RunUpdate>();
   private readonly disposables: vscode.Disposable[] = [];
   private readonly maxOutputSize = 200_000;
 
   constructor(private maxParallel: number) {
-    const tasksAny = vscode.tasks as typeof vscode.tasks & {
-      onDidWriteTaskData?: (listener: (event: unknown) => void) => vscode.Disposable;
-    };
-    this.disposables.push(
-      vscode.tasks.onDidEndTaskProcess((event) => {
-        void this.handleTaskEnd(event);
-      }),
-      tasksAny.onDidWriteTaskData
-        ? tasksAny.onDidWriteTaskData((event) => {
-            this.handleTaskOutput(event);
-          })
-        : { dispose: () => undefined },
-      this.updates,
-    );
+    this.disposables.push(this.updates);
   }
 
   get onDidUpdate(): vscode.Event<RunUpdate> {
@@ -66,27 +88,197 @@ export class TargetRunner implements vscode.Disposable {
     if (this.running.has(key) || this.pending.some((item) => this.getKey(item.module.id, item.target) === key)) {
       return;
     }
-    this.taskNames.set(key, this.getTaskName(request.module.name, request.target));
+    this.taskNames.set(key, getTaskName(request.module, request.target));
     this.autoCloseOnSuccess.set(key, request.autoCloseOnSuccess);
+    this.attempts.delete(key);
     this.pending.push(request);
     this.kick();
   }
 
+  /**
+   * Runs a cell again. An in-flight run of the same cell is cancelled first (without reporting a
+   * result) and the new run is queued once it has ended.
+   */
+  restart(request: RunRequest): void {
+    const key = this.getKey(request.module.id, request.target);
+    const entry = this.running.get(key);
+    if (entry?.kind === 'retry') {
+      clearTimeout(entry.timer);
+      this.running.delete(key);
+    }
+    if (!entry || entry.kind === 'retry') {
+      this.enqueue(request);
+      return;
+    }
+    this.restarts.set(key, request);
+    if (this.cancelled.has(key)) {
+      return;
+    }
+    this.cancelled.add(key);
+    this.terminate(key);
+  }
+
   stopAll(): void {
-    for (const entry of this.running.values()) {
-      if (entry.kind === 'task') {
-        entry.execution.terminate();
+    for (const [key, entry] of [...this.running.entries()]) {
+      if (entry.kind === 'retry') {
+        clearTimeout(entry.timer);
+        this.running.delete(key);
+        this.updates.fire({ ...entry.update, attempts: this.takeAttempts(key) });
+      } else {
+        this.markStopped(key);
+        this.terminate(key);
       }
     }
     this.pending.length = 0;
   }
 
+  /** Whether a run of the cell is queued, running, waiting for a retry or about to restart. */
+  isScheduled(moduleId: string, target: string): boolean {
+    const key = this.getKey(moduleId, target);
+    return (
+      this.running.has(key) ||
+      this.restarts.has(key) ||
+      this.pending.some((item) => this.getKey(item.module.id, item.target) === key)
+    );
+  }
+
+  /** Stops one cell the way `stopAll` stops every cell: a queued run is dropped, a running one terminated. */
+  stop(moduleId: string, target: string): void {
+    const key = this.getKey(moduleId, target);
+    const index = this.pending.findIndex((item) => this.getKey(item.module.id, item.target) === key);
+    if (index !== -1) {
+      this.pending.splice(index, 1);
+    }
+    const entry = this.running.get(key);
+    if (entry?.kind === 'retry') {
+      clearTimeout(entry.timer);
+      this.running.delete(key);
+      this.updates.fire({ ...entry.update, attempts: this.takeAttempts(key) });
+      this.kick();
+    } else if (entry) {
+      this.markStopped(key);
+      this.terminate(key);
+    }
+  }
+
+  /**
+   * Makes the end of a running cell report as stopped, so it is neither classified nor retried. A
+   * pending restart is dropped as well.
+   */
+  private markStopped(key: string): void {
+    this.cancelled.delete(key);
+    this.restarts.delete(key);
+    this.stopped.add(key);
+  }
+
+  private terminate(key: string): void {
+    this.clearWatchdog(key);
+    const entry = this.running.get(key);
+    if (entry?.kind === 'task') {
+      entry.execution.terminate();
+    } else if (entry?.kind === 'silent') {
+      entry.abort.abort();
+    }
+  }
+
+  private startWatchdog(key: string, request: RunRequest): void {
+    this.clearWatchdog(key);
+    const watchdog: RunWatchdog = { request };
+    if (request.timeoutMs && request.timeoutMs > 0) {
+      watchdog.timeout = setTimeout(
+        () => this.handleTimeout(key, `exceeded the ${formatSeconds(request.timeoutMs as number)} timeout`),
+        request.timeoutMs,
+      );
+    }
+    this.watchdogs.set(key, watchdog);
+    this.resetIdleTimer(key);
+  }
+
+  private resetIdleTimer(key: string): void {
+    const watchdog = this.watchdogs.get(key);
+    const idleMs = watchdog?.request.noOutputTimeoutMs;
+    if (!watchdog || !idleMs || idleMs <= 0) {
+      return;
+    }
+    if (watchdog.idle) {
+      clearTimeout(watchdog.idle);
+    }
+    watchdog.idle = setTimeout(() => this.handleTimeout(key, `no output for ${formatSeconds(idleMs)}`), idleMs);
+  }
+
+  private clearWatchdog(key: string): void {
+    const watchdog = this.watchdogs.get(key);
+    if (watchdog?.timeout) {
+      clearTimeout(watchdog.timeout);
+    }
+    if (watchdog?.idle) {
+      clearTimeout(watchdog.idle);
+    }
+    this.watchdogs.delete(key);
+  }
+
+  private handleTimeout(key: string, reason: string): void {
+    if (!this.running.has(key) || this.cancelled.has(key)) {
+      return;
+    }
+    this.timedOut.set(key, reason);
+    this.terminate(key);
+  }
+
+  /** Reports a run that was terminated by its watchdog; returns `false` for any other run. */
+  private finishTimedOut(key: string, moduleId: string, target: string, exitCode?: number): boolean {
+    const reason = this.timedOut.get(key);
+    if (reason === undefined) {
+      return false;
+    }
+    this.timedOut.delete(key);
+    this.running.delete(key);
+    const output = this.taskOutput.get(key) ?? '';
+    const update: RunUpdate = { moduleId, target, status: 'timeout', exitCode, timeoutReason: reason };
+    if (this.retryIfAllowed(key, update, output)) {
+      return true;
+    }
+    this.updates.fire({ ...update, attempts: this.takeAttempts(key), output: this.takeOutput(key) });
+    this.autoCloseOnSuccess.delete(key);
+    this.kick();
+    return true;
+  }
+
+  /** Reports a run ended by `stop` as failed, without classifying, retrying or repeating it. */
+  private finishStopped(key: string, moduleId: string, target: string, exitCode?: number): boolean {
+    if (!this.stopped.delete(key)) {
+      return false;
+    }
+    this.timedOut.delete(key);
+    this.running.delete(key);
+    this.updates.fire({
+      moduleId,
+      target,
+      status: 'failed',
+      exitCode,
+      statusReason: 'Stopped',
+      attempts: this.takeAttempts(key),
+      output: this.takeOutput(key),
+    });
+    this.autoCloseOnSuccess.delete(key);
+    this.kick();
+    return true;
+  }
+
   async clearAllTerminals(options?: { closeAllTerminals?: boolean }): Promise<void> {
     await clearRegisteredTaskTerminals(options);
     this.taskNames.clear();
   }
 
   dispose(): void {
+    for (const key of [...this.watchdogs.keys()]) {
+      this.clearWatchdog(key);
+    }
+    for (const entry of this.running.values()) {
+      if (entry.kind === 'retry') {
+        clearTimeout(entry.timer);
+      }
+    }
     for (const disposable of this.disposables) {
       disposable.dispose();
     }
@@ -104,12 +296,17 @@ export class TargetRunner implements vscode.Disposable {
 
   private async execute(request: RunRequest): Promise<void> {
     const key = this.getKey(request.module.id, request.target);
-    this.updates.fire({ moduleId: request.module.id, target: request.target, status: 'running' });
-    this.modulePaths.set(key, request.module.path);
-    this.runStartedAt.set(key, Date.now());
+    this.requests.set(key, request);
+    this.updates.fire({
+      moduleId: request.module.id,
+      target: request.target,
+      status: 'running',
+      attempts: this.attempts.get(key) ?? 1,
+    });
     this.taskOutput.set(key, '');
+    this.startWatchdog(key, request);
     if (request.runInTerminal === false) {
-      this.running.set(key, { kind: 'silent' });
+      this.running.set(key, { kind: 'silent', abort: new AbortController() });
       await this.executeSilently(request, key);
       return;
     }
@@ -117,57 +314,100 @@ export class TargetRunner implements vscode.Disposable {
     await this.executeInTerminal(request, key);
   }
 
-  private async handleTaskEnd(event: vscode.TaskProcessEndEvent): Promise<void> {
-    const definition = event.execution.task.definition as { type?: string; moduleId?: string; target?: string };
-    if (definition?.type !== 'targetsManager' || !definition.moduleId || !definition.target) {
+  private handleTaskEnd(key: string, moduleId: string, target: string, exitCode: number | undefined): void {
+    this.running.delete(key);
+    this.clearWatchdog(key);
+    if (
+      this.finishCancelled(key) ||
+      this.finishStopped(key, moduleId, target, exitCode) ||
+      this.finishTimedOut(key, moduleId, target, exitCode)
+    ) {
       return;
     }
-    const key = this.getKey(definition.moduleId, definition.target);
-    this.running.delete(key);
-    const modulePath = this.modulePaths.get(key);
-    const startedAt = this.runStartedAt.get(key) ?? Date.now();
     const output = this.taskOutput.get(key) ?? '';
-    let status: RunUpdate['status'] = event.exitCode === 0 ? 'success' : 'failed';
-    if (status === 'success' && modulePath) {
-      status = await this.resolveDiagnosticsStatus(modulePath, startedAt);
-    }
-    if (status === 'success' && output) {
-      status = this.resolveOutputStatus(0, output);
+    const { status, reason } = classifyRun(exitCode, output, this.requests.get(key)?.statusRules);
+    const update: RunUpdate = { moduleId, target, status, exitCode, statusReason: reason };
+    if (this.retryIfAllowed(key, update, output)) {
+      return;
     }
     if (status === 'success' && this.autoCloseOnSuccess.get(key)) {
       this.closeTaskTerminal(key);
     }
-    this.updates.fire({
-      moduleId: definition.moduleId,
-      target: definition.target,
-      status,
-      exitCode: event.exitCode,
-    });
-    this.modulePaths.delete(key);
-    this.runStartedAt.delete(key);
+    this.updates.fire({ ...update, attempts: this.takeAttempts(key), output: this.takeOutput(key) });
     this.autoCloseOnSuccess.delete(key);
-    this.taskOutput.delete(key);
     this.kick();
   }
 
-  private getKey(moduleId: string, target: string): string {
-    return `${moduleId}:${target}`;
-  }
-
-  private getTaskName(moduleName: string, target: string): string {
-    return `${moduleName}:${target}`;
+  private finishCancelled(key: string): boolean {
+    if (!this.cancelled.delete(key)) {
+      return false;
+    }
+    this.timedOut.delete(key);
+    this.running.delete(key);
+    this.autoCloseOnSuccess.delete(key);
+    this.takeOutput(key);
+    const restart = this.restarts.get(key);
+    this.restarts.delete(key);
+    if (restart) {
+      this.enqueue(restart);
+    } else {
+      this.kick();
+    }
+    return true;
   }
 
-  private handleTaskOutput(event: unknown): void {
-    if (!event || typeof event !== 'object' || !('execution' in event) || !('data' in event)) {
-      return;
+  /**
+   * Schedules another attempt when the target's retry policy allows it. The runner slot stays taken
+   * during the backoff so the retried run does not go back to the end of the queue.
+   */
+  private retryIfAllowed(key: string, update: RunUpdate, output: string): boolean {
+    const request = this.requests.get(key);
+    const policy = request?.definition?.retry;
+    const attempt = this.attempts.get(key) ?? 1;
+    if (!request || !policy || attempt >= policy.maxAttempts) {
+      return false;
     }
-    const { execution, data } = event as { execution: vscode.TaskExecution; data: string };
-    const definition = execution.task.definition as { type?: string; moduleId?: string; target?: string };
-    if (definition?.type !== 'targetsManager' || !definition.moduleId || !definition.target) {
-      return;
+    if (update.status !== 'failed' && update.status !== 'timeout') {
+      return false;
+    }
+    if (policy.exitCodes?.length && (update.exitCode === undefined || !policy.exitCodes.includes(update.exitCode))) {
+      return false;
     }
-    const key = this.getKey(definition.moduleId, definition.target);
+    if (policy.outputPattern && !new RegExp(policy.outputPattern, 'm').test(output)) {
+      return false;
+    }
+    this.attempts.set(key, attempt + 1);
+    const delayMs = (policy.backoff ?? 0) * 1000 * 2 ** (attempt - 1);
+    const timer = setTimeout(() => {
+      this.running.delete(key);
+      void this.execute(request);
+    }, delayMs);
+    this.running.set(key, { kind: 'retry', timer, update: { ...update, attempts: attempt } });
+    return true;
+  }
+
+  private takeAttempts(key: string): number {
+    const attempts = this.attempts.get(key) ?? 1;
+    this.attempts.delete(key);
+    this.requests.delete(key);
+    return attempts;
+  }
+
+  /** Returns the output collected for the run (including a silent run it repeats) and forgets it. */
+  private takeOutput(key: string): string {
+    const output = this.taskOutput.get(key) ?? '';
+    const silentOutput = this.silentOutput.get(key);
+    this.taskOutput.delete(key);
+    this.silentOutput.delete(key);
+    return silentOutput ? `${silentOutput}\n\n--- Repeated in a terminal ---\n${output}` : output;
+  }
+
+  private getKey(moduleId: string, target: string): string {
+    return `${moduleId}:${target}`;
+  }
+
+  private handleTaskOutput(key: string, data: string): void {
+    this.resetIdleTimer(key);
     const existing = this.taskOutput.get(key) ?? '';
     let next = existing + data;
     if (next.length > this.maxOutputSize) {
@@ -187,158 +427,85 @@ export class TargetRunner implements vscode.Disposable {
 
   private async executeInTerminal(request: RunRequest, key: string): Promise<void> {
     this.taskOutput.set(key, '');
-    const task = createTargetTask(request.module, request.target, request.useNinja, request.makeJobs);
+    const watchdog = this.watchdogs.get(key);
+    if (watchdog) {
+      watchdog.request = request;
+      if (watchdog.idle) {
+        clearTimeout(watchdog.idle);
+        watchdog.idle = undefined;
+      }
+      this.resetIdleTimer(key);
+    }
+    let ended = false;
+    const task = createTargetTask(request.module, request.target, request, {
+      onOutput: (data) => this.handleTaskOutput(key, data),
+      onExit: (exitCode) => {
+        ended = true;
+        this.handleTaskEnd(key, request.module.id, request.target, exitCode);
+      },
+    });
     const execution = await vscode.tasks.executeTask(task);
+    // A command that fails to start can end before the task is reported as started.
+    if (ended) {
+      return;
+    }
+    // Replaces the entry of a silent run being repeated, which kept the cell's slot until now.
     this.running.set(key, { kind: 'task', execution });
+    if (this.stopped.has(key) || this.cancelled.has(key)) {
+      execution.terminate();
+    }
   }
 
   private async executeSilently(request: RunRequest, key: string): Promise<void> {
-    const { command, args, cwd } = getTargetCommand(request.module, request.target, request.useNinja, request.makeJobs);
-    const result = await runCommandWithExitCode(command, args, cwd);
+    const { command, args, cwd, env } = getTargetCommand(request.module, request.target, request);
+    const entry = this.running.get(key);
+    const signal = entry?.kind === 'silent' ? entry.abort.signal : undefined;
+    const result = await runCommandWithExitCode(command, args, cwd, {
+      env,
+      signal,
+      onOutput: () => this.resetIdleTimer(key),
+    });
+    if (
+      this.finishCancelled(key) ||
+      this.finishStopped(key, request.module.id, request.target, result.exitCode) ||
+      this.finishTimedOut(key, request.module.id, request.target, result.exitCode)
+    ) {
+      return;
+    }
     const output = `${result.stdout}\n${result.stderr}`.trim();
-    const status = this.resolveOutputStatus(result.exitCode ?? 1, output);
+    const { status, reason } = classifyRun(result.exitCode, output, request.statusRules);
     if (status === 'success') {
       this.running.delete(key);
+      this.clearWatchdog(key);
       this.updates.fire({
         moduleId: request.module.id,
         target: request.target,
         status,
         exitCode: result.exitCode ?? 0,
+        statusReason: reason,
+        attempts: this.takeAttempts(key),
+        output,
       });
-      this.modulePaths.delete(key);
-      this.runStartedAt.delete(key);
       this.autoCloseOnSuccess.delete(key);
       this.kick();
       return;
     }
-    this.running.delete(key);
+    // Retry silently while attempts remain; only the last attempt is repeated in a terminal. The
+    // silent entry keeps the cell in `running` until the retry or the terminal task replaces it.
+    const update: RunUpdate = {
+      moduleId: request.module.id,
+      target: request.target,
+      status,
+      exitCode: result.exitCode,
+      statusReason: reason,
+    };
+    if (this.retryIfAllowed(key, update, output)) {
+      this.clearWatchdog(key);
+      return;
+    }
     this.autoCloseOnSuccess.set(key, false);
-    this.runStartedAt.set(key, Date.now());
+    this.silentOutput.set(key, output);
     this.updates.fire({ moduleId: request.module.id, target: request.target, status: 'running' });
     await this.executeInTerminal({ ...request, runInTerminal: true }, key);
   }
-
-  private resolveOutputStatus(exitCode: number, output: string): RunUpdate['status'] {
-    if (exitCode !== 0) {
-      return 'failed';
-    }
-    if (!output) {
-      return 'success';
-    }
-    const warningPattern = /(^|\s)warning\s*:/im;
-    const errorPattern = /(^|\s)(fatal\s+)?error\s*:/im;
-    if (errorPattern.test(output)) {
-      return 'failed';
-    }
-    if (warningPattern.test(output)) {
-      return 'warning';
-    }
-    return 'success';
-  }
-
-  private getDiagnosticsCounts(modulePath: string): { warnings: number; errors: number } {
-    const moduleRoot = path.resolve(modulePath);
-    const modulePrefix = moduleRoot.endsWith(path.sep) ? moduleRoot : moduleRoot + path.sep;
-    let warnings = 0;
-    let errors = 0;
-    for (const [uri, diagnostics] of vscode.languages.getDiagnostics()) {
-      const fsPath = uri.fsPath;
-      if (!fsPath) {
-        continue;
-      }
-      const normalized = path.resolve(fsPath);
-      if (normalized !== moduleRoot && !normalized.startsWith(modulePrefix)) {
-        continue;
-      }
-      for (const diagnostic of diagnostics) {
-        if (diagnostic.severity === vscode.DiagnosticSeverity.Warning) {
-          warnings += 1;
-        } else if (diagnostic.severity === vscode.DiagnosticSeverity.Error) {
-          errors += 1;
-        }
-      }
-    }
-    return { warnings, errors };
-  }
-
-  private async resolveDiagnosticsStatus(modulePath: string, startedAt: number): Promise<RunUpdate['status']> {
-    await this.waitForDiagnosticsSettled(modulePath, startedAt);
-    const current = this.getDiagnosticsCounts(modulePath);
-    if (current.errors > 0) {
-      return 'failed';
-    }
-    if (current.warnings > 0) {
-      return 'warning';
-    }
-    return 'success';
-  }
-
-  private waitForDiagnosticsSettled(modulePath: string, startedAt: number): Promise<void> {
-    const moduleRoot = path.resolve(modulePath);
-    const modulePrefix = moduleRoot.endsWith(path.sep) ? moduleRoot : moduleRoot + path.sep;
-    const initialWaitMs = 1000;
-    const quietWindowMs = 300;
-    const maxWaitMs = 5000;
-    let quietTimeout: NodeJS.Timeout | undefined;
-    let maxTimeout: NodeJS.Timeout | undefined;
-    let initialTimeout: NodeJS.Timeout | undefined;
-    let resolvePromise: () => void;
-    let sawChange = false;
-    const promise = new Promise<void>((resolve) => {
-      resolvePromise = resolve;
-    });
-    let disposableIndex = -1;
-    const cleanup = () => {
-      if (quietTimeout) {
-        clearTimeout(quietTimeout);
-      }
-      if (maxTimeout) {
-        clearTimeout(maxTimeout);
-      }
-      if (initialTimeout) {
-        clearTimeout(initialTimeout);
-      }
-      if (disposableIndex !== -1) {
-        this.disposables.splice(disposableIndex, 1);
-        disposableIndex = -1;
-      }
-      disposable.dispose();
-      resolvePromise();
-    };
-    const bumpQuietTimer = () => {
-      if (quietTimeout) {
-        clearTimeout(quietTimeout);
-      }
-      quietTimeout = setTimeout(() => {
-        cleanup();
-      }, quietWindowMs);
-    };
-    const disposable = vscode.languages.onDidChangeDiagnostics((event) => {
-      for (const uri of event.uris) {
-        const fsPath = uri.fsPath;
-        if (!fsPath) {
-          continue;
-        }
-        const normalized = path.resolve(fsPath);
-        if (normalized === moduleRoot || normalized.startsWith(modulePrefix)) {
-          sawChange = true;
-          if (Date.now() >= startedAt) {
-            bumpQuietTimer();
-          }
-          break;
-        }
-      }
-    });
-    this.disposables.push(disposable);
-    disposableIndex = this.disposables.length - 1;
-    initialTimeout = setTimeout(() => {
-      if (!sawChange) {
-        cleanup();
-      }
-    }, initialWaitMs);
-    maxTimeout = setTimeout(() => {
-      cleanup();
-    }, maxWaitMs);
-    return promise;
-  }
 }
@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import { TargetRunStatus } from './types';
+
+export const DEFAULT_HISTORY_LIMIT = 20;
+const OUTPUT_TAIL_LENGTH = 2000;
+
+export interface RunHistoryEntry {
+  status: TargetRunStatus;
+  exitCode?: number;
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  attempts?: number;
+  statusReason?: string;
+  outputTail?: string;
+  /** Full captured output, see `RunLogStore`. */
+  logFile?: string;
+}
+
+type HistoryData = Record<string, RunHistoryEntry[]>;
+
+export const getOutputTail = (output: string): string | undefined => {
+  const trimmed = output.trim();
+  return trimmed ? trimmed.slice(-OUTPUT_TAIL_LENGTH) : undefined;
+};
+
+/**
+ * Run results of one dashboard, kept in workspace storage so the last known status of every cell
+ * survives refreshes and window reloads. Each module/target pair keeps its newest `limit` entries.
+ */
+export class RunHistory {
+  private readonly key: string;
+
+  constructor(
+    private readonly memento: vscode.Memento,
+    dashboardName: string,
+    private limit = DEFAULT_HISTORY_LIMIT,
+  ) {
+    this.key = `targetsManager.history:${dashboardName}`;
+  }
+
+  setLimit(limit: number): void {
+    this.limit = Math.max(1, Math.floor(limit));
+  }
+
+  record(moduleId: string, target: string, entry: RunHistoryEntry): void {
+    const data = { ...this.read() };
+    const cellKey = this.getCellKey(moduleId, target);
+    data[cellKey] = [entry, ...(data[cellKey] ?? [])].slice(0, this.limit);
+    void this.memento.update(this.key, data);
+  }
+
+  getEntries(moduleId: string, target: string): RunHistoryEntry[] {
+    return this.read()[this.getCellKey(moduleId, target)] ?? [];
+  }
+
+  /**
+   * Drops the entries of modules not in `moduleIds` and, when given, of targets not in `targets`.
+   * Returns the dropped cells.
+   */
+  prune(moduleIds: Iterable<string>, targets?: Iterable<string>): Array<{ moduleId: string; target: string }> {
+    const keptModules = new Set(moduleIds);
+    const keptTargets = targets ? new Set(targets) : undefined;
+    const data: HistoryData = {};
+    const removed: Array<{ moduleId: string; target: string }> = [];
+    for (const [cellKey, entries] of Object.entries(this.read())) {
+      const separator = cellKey.lastIndexOf('\n');
+      const moduleId = cellKey.slice(0, separator);
+      const target = cellKey.slice(separator + 1);
+      if (keptModules.has(moduleId) && (!keptTargets || keptTargets.has(target))) {
+        data[cellKey] = entries;
+      } else {
+        removed.push({ moduleId, target });
+      }
+    }
+    if (removed.length > 0) {
+      void this.memento.update(this.key, data);
+    }
+    return removed;
+  }
+
+  private read(): HistoryData {
+    return this.memento.get<HistoryData>(this.key, {});
+  }
+
+  private getCellKey(moduleId: string, target: string): string {
+    return `${moduleId}\n${target}`;
+  }
+}
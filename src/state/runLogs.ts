@@ -0,0 +1,56 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DEFAULT_HISTORY_LIMIT } from './runHistory';
+
+const MAX_LOG_SIZE = 1_000_000;
+
+/**
+ * Output of finished runs, one file per run under the extension's workspace storage. Each
+ * module/target pair keeps its newest `limit` logs (the same limit as the run history, so every
+ * history entry can point at its log), and each log keeps the last `MAX_LOG_SIZE` characters.
+ */
+export class RunLogStore {
+  constructor(
+    private readonly directory: string,
+    private limit = DEFAULT_HISTORY_LIMIT,
+  ) {}
+
+  setLimit(limit: number): void {
+    this.limit = Math.max(1, Math.floor(limit));
+  }
+
+  /** Writes the log of a run that started at `startedAt` and returns its path. */
+  async write(moduleId: string, target: string, startedAt: number, output: string): Promise<string> {
+    const cellDir = path.join(this.directory, this.getCellDirectory(moduleId, target));
+    await fs.mkdir(cellDir, { recursive: true });
+    const file = path.join(cellDir, `${startedAt}.log`);
+    await fs.writeFile(file, output.length > MAX_LOG_SIZE ? output.slice(-MAX_LOG_SIZE) : output, 'utf8');
+    await this.prune(cellDir);
+    return file;
+  }
+
+  async read(file: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(file, 'utf8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Deletes every log of a module/target pair. */
+  async remove(moduleId: string, target: string): Promise<void> {
+    await fs.rm(path.join(this.directory, this.getCellDirectory(moduleId, target)), { recursive: true, force: true });
+  }
+
+  private async prune(cellDir: string): Promise<void> {
+    const logs = (await fs.readdir(cellDir))
+      .filter((name) => name.endsWith('.log'))
+      .sort((a, b) => Number.parseInt(b, 10) - Number.parseInt(a, 10));
+    await Promise.all(logs.slice(this.limit).map((name) => fs.rm(path.join(cellDir, name), { force: true })));
+  }
+
+  private getCellDirectory(moduleId: string, target: string): string {
+    return createHash('sha1').update(`${moduleId}\n${target}`).digest('hex').slice(0, 16);
+  }
+}
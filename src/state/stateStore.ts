@@ -1,9 +1,25 @@
+import { CMakeTargetInfo } from '../cmake/fileApi';
 import { CMakeGenerator } from '../cmake/generator';
-import { ConfigureResult, DashboardState, ModuleInfo, ModuleState, RunResult, TargetDefinition } from './types';
+import { isStandaloneTarget } from '../discovery/targets';
+import {
+  ConfigureResult,
+  CoverageSummary,
+  DashboardState,
+  ModuleInfo,
+  ModuleState,
+  PresetSelection,
+  RunResult,
+  TargetDefinition,
+  TestResults,
+  VariantLayout,
+} from './types';
 
 export class StateStore {
   private modules: ModuleState[] = [];
   private targets: TargetDefinition[] = [];
+  private variants: string[] = [];
+  private variantLayout: VariantLayout = 'rows';
+  private activeVariant?: string;
 
   setTargets(targets: TargetDefinition[]): void {
     this.targets = targets;
@@ -11,22 +27,39 @@ export class StateStore {
       for (const target of targets) {
         moduleState.runs[target.name] = moduleState.runs[target.name] ?? { status: 'idle' };
       }
+      if (moduleState.detectedTargets) {
+        this.applyDetectedTargets(moduleState);
+      }
     }
   }
 
   setModules(modules: ModuleInfo[]): void {
-    this.modules = modules.map((module) => ({
-      module,
-      availability: {},
-      runs: {},
-      needsConfigure: false,
-      configure: { status: 'idle' },
-    }));
-    for (const moduleState of this.modules) {
-      for (const target of this.targets) {
-        moduleState.runs[target.name] = { status: 'idle' };
+    this.modules = modules.map((module) => this.createModuleState(module));
+  }
+
+  /**
+   * Replaces the module list while keeping the state (runs, detected targets, configure status) of
+   * modules that are still present. Returns the modules that were not known before.
+   */
+  mergeModules(modules: ModuleInfo[]): ModuleInfo[] {
+    const existing = new Map(this.modules.map((state) => [state.module.id, state]));
+    const added: ModuleInfo[] = [];
+    this.modules = modules.map((module) => {
+      const current = existing.get(module.id);
+      if (current) {
+        current.module = module;
+        return current;
       }
-    }
+      added.push(module);
+      return this.createModuleState(module);
+    });
+    return added;
+  }
+
+  setVariants(variants: string[], layout: VariantLayout, activeVariant?: string): void {
+    this.variants = variants;
+    this.variantLayout = layout;
+    this.activeVariant = activeVariant;
   }
 
   setModuleGenerator(moduleId: string, generator: CMakeGenerator): void {
@@ -36,6 +69,14 @@ export class StateStore {
     }
   }
 
+  setBuildContext(moduleId: string, buildDir: string, presets?: PresetSelection): void {
+    const moduleState = this.modules.find((state) => state.module.id === moduleId);
+    if (moduleState) {
+      moduleState.buildDir = buildDir;
+      moduleState.presets = presets;
+    }
+  }
+
   setNeedsConfigure(moduleId: string, needsConfigure: boolean): void {
     const moduleState = this.modules.find((state) => state.module.id === moduleId);
     if (moduleState) {
@@ -43,6 +84,63 @@ export class StateStore {
     }
   }
 
+  setDetectedTargets(moduleId: string, detected: Iterable<string>): void {
+    const moduleState = this.modules.find((state) => state.module.id === moduleId);
+    if (moduleState) {
+      moduleState.detectedTargets = Array.from(detected);
+      this.applyDetectedTargets(moduleState);
+    }
+  }
+
+  setTargetDetails(moduleId: string, details: CMakeTargetInfo[]): void {
+    const moduleState = this.modules.find((state) => state.module.id === moduleId);
+    if (moduleState) {
+      moduleState.targetDetails = Object.fromEntries(details.map((detail) => [detail.name, detail]));
+    }
+  }
+
+  setCommands(moduleId: string, commands: Record<string, string>): void {
+    const moduleState = this.modules.find((state) => state.module.id === moduleId);
+    if (moduleState) {
+      moduleState.commands = commands;
+    }
+  }
+
+  setTestResults(moduleId: string, targetName: string, results: TestResults | undefined): void {
+    const moduleState = this.modules.find((state) => state.module.id === moduleId);
+    if (!moduleState) {
+      return;
+    }
+    const tests = { ...moduleState.tests };
+    if (results) {
+      tests[targetName] = results;
+    } else {
+      delete tests[targetName];
+    }
+    moduleState.tests = tests;
+  }
+
+  setCoverage(moduleId: string, targetName: string, summary: CoverageSummary | undefined): void {
+    const moduleState = this.modules.find((state) => state.module.id === moduleId);
+    if (!moduleState) {
+      return;
+    }
+    const coverage = { ...moduleState.coverage };
+    if (summary) {
+      coverage[targetName] = summary;
+    } else {
+      delete coverage[targetName];
+    }
+    moduleState.coverage = coverage;
+  }
+
+  setWatching(moduleId: string, targets: string[]): void {
+    const moduleState = this.modules.find((state) => state.module.id === moduleId);
+    if (moduleState) {
+      moduleState.watching = targets;
+    }
+  }
+
   setAvailability(moduleId: string, targetName: string, available: boolean): void {
     const moduleState = this.modules.find((state) => state.module.id === moduleId);
     if (moduleState) {
@@ -80,6 +178,9 @@ export class StateStore {
     return {
       modules: this.modules,
       targets: this.targets,
+      variants: this.variants,
+      variantLayout: this.variantLayout,
+      activeVariant: this.activeVariant,
     };
   }
 
@@ -106,4 +207,27 @@ export class StateStore {
     }
     return all;
   }
+
+  private createModuleState(module: ModuleInfo): ModuleState {
+    const moduleState: ModuleState = {
+      module,
+      availability: {},
+      runs: {},
+      needsConfigure: false,
+      configure: { status: 'idle' },
+    };
+    for (const target of this.targets) {
+      moduleState.runs[target.name] = { status: 'idle' };
+    }
+    return moduleState;
+  }
+
+  private applyDetectedTargets(moduleState: ModuleState): void {
+    const detected = new Set(moduleState.detectedTargets ?? []);
+    moduleState.availability = {};
+    for (const target of this.targets) {
+      // Targets with their own command and CTest targets do not have to exist in the build system.
+      moduleState.availability[target.name] = detected.has(target.name) || isStandaloneTarget(target);
+    }
+  }
 }
@@ -1,18 +1,111 @@
 import * as vscode from 'vscode';
+import { CMakeTargetInfo } from '../cmake/fileApi';
 import { CMakeGenerator } from '../cmake/generator';
 
-export type TargetRunStatus = 'idle' | 'running' | 'success' | 'warning' | 'failed';
+export type TargetRunStatus = 'idle' | 'running' | 'success' | 'warning' | 'failed' | 'blocked' | 'timeout';
 export type ConfigureStatus = 'idle' | 'running' | 'success' | 'failed';
 
 export interface ModuleInfo {
   id: string;
   name: string;
   path: string;
+  root: string;
+  variant?: string;
   workspaceFolder: vscode.WorkspaceFolder;
 }
 
+export const TARGET_GROUPS = ['format', 'test', 'analysis', 'coverage', 'hardware'] as const;
+
+export type TargetGroup = (typeof TARGET_GROUPS)[number];
+
+export interface RetryPolicy {
+  /** Total number of attempts, including the first run. */
+  maxAttempts: number;
+  /** Seconds before the first retry; doubled for every further retry. */
+  backoff?: number;
+  /** Only retry when the run exited with one of these codes. */
+  exitCodes?: number[];
+  /** Only retry when the output matches this regular expression. */
+  outputPattern?: string;
+}
+
+export const TARGET_KINDS = ['build', 'ctest'] as const;
+
+/** `build` targets are built with the build tool; `ctest` targets run the module's CTest tests. */
+export type TargetKind = (typeof TARGET_KINDS)[number];
+
+export interface CTestFilter {
+  /** Only run tests with a label matching this regular expression (`-L`). */
+  labels?: string;
+  /** Skip tests with a label matching this regular expression (`-LE`). */
+  excludeLabels?: string;
+  /** Only run tests whose name matches this regular expression (`-R`). */
+  regex?: string;
+  /** Skip tests whose name matches this regular expression (`-E`). */
+  excludeRegex?: string;
+}
+
+export interface CoverageThresholds {
+  /** Minimum line coverage in percent. */
+  line?: number;
+  /** Minimum branch coverage in percent. */
+  branch?: number;
+}
+
+export interface CoverageOptions {
+  /** Report file (lcov `.info`, gcovr JSON or Cobertura XML), relative to the build directory. */
+  report?: string;
+  /** A successful run becomes a warning when coverage is below these thresholds. */
+  warnBelow?: CoverageThresholds;
+  /** A successful run fails when coverage is below these thresholds. */
+  failBelow?: CoverageThresholds;
+}
+
+/** Status a run can be classified as from its exit code and output. */
+export type ClassifiedStatus = 'success' | 'warning' | 'failed';
+
+export interface StatusRules {
+  /** Output lines matching one of these regular expressions fail the run (replaces the `error:` rule). */
+  failurePatterns?: RegExp[];
+  /** Output lines matching one of these regular expressions make the run a warning (replaces the `warning:` rule). */
+  warningPatterns?: RegExp[];
+  /** Output lines matching one of these regular expressions are not classified or parsed for diagnostics. */
+  ignorePatterns?: RegExp[];
+  /** Status per exit code, e.g. `{ "2": "warning" }`; other non-zero exit codes fail the run. */
+  exitCodes?: Record<string, ClassifiedStatus>;
+  /** Runs that would end as a warning fail instead. */
+  warningsAsErrors?: boolean;
+}
+
+export interface CppcheckOptions {
+  /** XML report (`--xml --output-file=...`), relative to the build directory. */
+  report?: string;
+}
+
 export interface TargetDefinition {
   name: string;
+  label?: string;
+  description?: string;
+  group?: TargetGroup;
+  icon?: string;
+  dependsOn?: string[];
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  timeout?: number;
+  noOutputTimeout?: number;
+  retry?: RetryPolicy;
+  kind?: TargetKind;
+  ctest?: CTestFilter;
+  coverage?: CoverageOptions;
+  cppcheck?: CppcheckOptions;
+  statusRules?: StatusRules;
+}
+
+export interface PresetSelection {
+  configure?: string;
+  build?: string;
 }
 
 export interface TargetAvailability {
@@ -24,6 +117,41 @@ export interface RunResult {
   exitCode?: number;
   startedAt?: number;
   finishedAt?: number;
+  blockedBy?: string;
+  timeoutReason?: string;
+  attempts?: number;
+  /** Whether a captured log of this or an earlier run is available. */
+  hasLog?: boolean;
+  /** The rule that decided the status, shown in the cell tooltip. */
+  statusReason?: string;
+}
+
+export type TestCaseStatus = 'passed' | 'failed' | 'ignored';
+
+export interface TestCaseResult {
+  name: string;
+  status: TestCaseStatus;
+  file?: string;
+  line?: number;
+  message?: string;
+}
+
+export interface TestResults {
+  total: number;
+  passed: number;
+  failed: number;
+  ignored: number;
+  cases: TestCaseResult[];
+}
+
+export interface CoverageCounter {
+  covered: number;
+  total: number;
+}
+
+export interface CoverageSummary {
+  lines?: CoverageCounter;
+  branches?: CoverageCounter;
 }
 
 export interface ConfigureResult {
@@ -35,13 +163,28 @@ export interface ConfigureResult {
 export interface ModuleState {
   module: ModuleInfo;
   availability: TargetAvailability;
+  detectedTargets?: string[];
+  targetDetails?: Record<string, CMakeTargetInfo>;
   runs: Record<string, RunResult>;
+  /** Test results parsed from the output of the last run, per target. */
+  tests?: Record<string, TestResults>;
+  /** Coverage parsed from the last run of coverage targets, per target. */
+  coverage?: Record<string, CoverageSummary>;
+  commands?: Record<string, string>;
+  watching?: string[];
   generator?: CMakeGenerator;
+  buildDir?: string;
+  presets?: PresetSelection;
   needsConfigure?: boolean;
   configure?: ConfigureResult;
 }
 
+export type VariantLayout = 'rows' | 'selector';
+
 export interface DashboardState {
   modules: ModuleState[];
   targets: TargetDefinition[];
+  variants?: string[];
+  variantLayout?: VariantLayout;
+  activeVariant?: string;
 }
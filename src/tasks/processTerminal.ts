@@ -0,0 +1,75 @@
+import { ChildProcess, spawn } from 'child_process';
+import * as vscode from 'vscode';
+import { TargetCommand } from './taskFactory';
+
+export interface ProcessTerminalHandlers {
+  /** Called with every chunk the process prints, stdout and stderr alike. */
+  onOutput?: (data: string) => void;
+  /** Called once when the process has ended; `undefined` when it was killed or could not start. */
+  onExit?: (exitCode: number | undefined) => void;
+}
+
+/**
+ * Runs a target command in a task terminal while handing its output and exit code to the runner.
+ * Closing the terminal (or terminating the task) kills the process; Ctrl+C interrupts it.
+ */
+export class ProcessTerminal implements vscode.Pseudoterminal {
+  private readonly writeEmitter = new vscode.EventEmitter<string>();
+  private readonly closeEmitter = new vscode.EventEmitter<number | void>();
+  private child?: ChildProcess;
+  private closed = false;
+  private exited = false;
+
+  readonly onDidWrite = this.writeEmitter.event;
+  readonly onDidClose = this.closeEmitter.event;
+
+  constructor(
+    private readonly command: TargetCommand,
+    private readonly handlers: ProcessTerminalHandlers = {},
+  ) {}
+
+  open(): void {
+    if (this.closed) {
+      return;
+    }
+    const { command, args, cwd, env } = this.command;
+    const child = spawn(command, args, { cwd, env: env ? { ...process.env, ...env } : process.env });
+    this.child = child;
+    const onData = (chunk: Buffer) => {
+      const data = chunk.toString();
+      this.writeEmitter.fire(data.replace(/\r?\n/g, '\r\n'));
+      this.handlers.onOutput?.(data);
+    };
+    child.stdout?.on('data', onData);
+    child.stderr?.on('data', onData);
+    child.on('error', (error) => {
+      this.writeEmitter.fire(`${error.message}\r\n`);
+      this.exit(undefined);
+    });
+    child.on('close', (code) => this.exit(code ?? undefined));
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.child && !this.exited) {
+      this.child.kill();
+    } else {
+      this.exit(undefined);
+    }
+  }
+
+  handleInput(data: string): void {
+    if (data === '\x03') {
+      this.child?.kill('SIGINT');
+    }
+  }
+
+  private exit(exitCode: number | undefined): void {
+    if (this.exited) {
+      return;
+    }
+    this.exited = true;
+    this.handlers.onExit?.(exitCode);
+    this.closeEmitter.fire(exitCode);
+  }
+}
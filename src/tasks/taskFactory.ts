@@ -1,6 +1,8 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { ModuleInfo } from '../state/types';
+import { expandModuleVariables } from '../cmake/buildDir';
+import { ModuleInfo, TargetDefinition } from '../state/types';
+import { ProcessTerminal, ProcessTerminalHandlers } from './processTerminal';
 import { registerTaskName } from './taskRegistry';
 
 export interface TargetTaskDefinition extends vscode.TaskDefinition {
@@ -18,35 +20,114 @@ export interface TargetCommand {
   command: string;
   args: string[];
   cwd: string;
+  env?: Record<string, string>;
 }
 
-export function getTargetCommand(
-  moduleInfo: ModuleInfo,
-  target: string,
-  useNinja: boolean,
-  makeJobs: string | number,
-): TargetCommand {
-  const cwd = path.join(moduleInfo.path, 'out');
-  const command = useNinja ? 'ninja' : 'make';
+export function getTaskName(moduleInfo: ModuleInfo, target: string): string {
+  const label = moduleInfo.variant ? `${moduleInfo.name} [${moduleInfo.variant}]` : moduleInfo.name;
+  return `${label}:${target}`;
+}
+
+export interface TargetCommandOptions {
+  useNinja: boolean;
+  makeJobs: string | number;
+  buildDir: string;
+  buildPreset?: string;
+  definition?: TargetDefinition;
+}
+
+function getBuildToolCommand(moduleInfo: ModuleInfo, target: string, options: TargetCommandOptions, extraArgs: string[]): TargetCommand {
+  if (options.buildPreset) {
+    return {
+      command: 'cmake',
+      args: ['--build', '--preset', options.buildPreset, '--target', target, ...(extraArgs.length > 0 ? ['--', ...extraArgs] : [])],
+      cwd: moduleInfo.path,
+    };
+  }
+  const cwd = options.buildDir;
+  const command = options.useNinja ? 'ninja' : 'make';
   const args: string[] = [];
-  if (!useNinja) {
-    const jobs = makeJobs === 'auto' ? undefined : makeJobs;
+  if (!options.useNinja) {
+    const jobs = options.makeJobs === 'auto' ? undefined : options.makeJobs;
     if (jobs) {
       args.push(`-j${jobs}`);
     }
   }
-  args.push(target);
+  args.push(...extraArgs, target);
   return { command, args, cwd };
 }
 
+/** Where a `ctest` target writes its JUnit report. */
+export function getCTestReportPath(buildDir: string, target: string): string {
+  return path.join(buildDir, 'Testing', `${target}.junit.xml`);
+}
+
+function getCTestCommand(target: string, options: TargetCommandOptions, extraArgs: string[]): TargetCommand {
+  const filter = options.definition?.ctest ?? {};
+  const args = [
+    '--test-dir',
+    options.buildDir,
+    '--output-on-failure',
+    '--output-junit',
+    getCTestReportPath(options.buildDir, target),
+  ];
+  const flags: Array<[string, string | undefined]> = [
+    ['-L', filter.labels],
+    ['-LE', filter.excludeLabels],
+    ['-R', filter.regex],
+    ['-E', filter.excludeRegex],
+  ];
+  for (const [flag, value] of flags) {
+    if (value) {
+      args.push(flag, value);
+    }
+  }
+  return { command: 'ctest', args: [...args, ...extraArgs], cwd: options.buildDir };
+}
+
+/**
+ * Builds the command line of a target. Definitions can add build tool arguments, environment
+ * variables and a working directory, or replace the build tool with their own `command` (which then
+ * receives `args`). `ctest` targets run the module's tests with their label and name filters and
+ * a JUnit report. Module variables and `${buildDir}` are expanded in all of these values.
+ */
+export function getTargetCommand(moduleInfo: ModuleInfo, target: string, options: TargetCommandOptions): TargetCommand {
+  const definition = options.definition;
+  const expand = (value: string) => expandModuleVariables(value, moduleInfo, { buildDir: options.buildDir, target });
+  const extraArgs = (definition?.args ?? []).map(expand);
+  const result = definition?.command
+    ? { command: expand(definition.command), args: extraArgs, cwd: options.buildDir }
+    : definition?.kind === 'ctest'
+      ? getCTestCommand(target, options, extraArgs)
+      : getBuildToolCommand(moduleInfo, target, options, extraArgs);
+  if (definition?.cwd) {
+    result.cwd = path.resolve(moduleInfo.path, expand(definition.cwd));
+  }
+  const env = definition?.env
+    ? Object.fromEntries(Object.entries(definition.env).map(([key, value]) => [key, expand(value)]))
+    : undefined;
+  return env ? { ...result, env } : result;
+}
+
+const quoteArg = (value: string): string => (/^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`);
+
+export function formatTargetCommand({ command, args, cwd, env }: TargetCommand): string {
+  const assignments = Object.entries(env ?? {}).map(([key, value]) => `${key}=${quoteArg(value)}`);
+  return [...assignments, quoteArg(command), ...args.map(quoteArg)].join(' ') + ` (in ${cwd})`;
+}
+
+/**
+ * Creates the task of a target. It runs in a pseudoterminal rather than a shell so the runner
+ * receives the output and exit code through `handlers`.
+ */
 export function createTargetTask(
   moduleInfo: ModuleInfo,
   target: string,
-  useNinja: boolean,
-  makeJobs: string | number,
+  options: TargetCommandOptions,
+  handlers: ProcessTerminalHandlers = {},
 ): vscode.Task {
-  const { command, args, cwd } = getTargetCommand(moduleInfo, target, useNinja, makeJobs);
-  const execution = new vscode.ShellExecution(command, args, { cwd });
+  const command = getTargetCommand(moduleInfo, target, options);
+  const execution = new vscode.CustomExecution(async () => new ProcessTerminal(command, handlers));
 
   const definition: TargetTaskDefinition = {
     type: 'targetsManager',
@@ -54,14 +135,13 @@ export function createTargetTask(
     target,
   };
 
-  const taskName = `${moduleInfo.name}:${target}`;
+  const taskName = getTaskName(moduleInfo, target);
   const task = new vscode.Task(
     definition,
     moduleInfo.workspaceFolder,
     taskName,
     'targetsManager',
     execution,
-    ['$gcc'],
   );
 
   registerTaskName(taskName);
@@ -75,8 +155,8 @@ export function createTargetTask(
   return task;
 }
 
-export function createConfigureTask(moduleInfo: ModuleInfo, generator: string): vscode.Task {
-  const execution = new vscode.ShellExecution('cmake', ['-S', './', '-B', 'out', '-G', generator], {
+export function createConfigureTask(moduleInfo: ModuleInfo, args: string[]): vscode.Task {
+  const execution = new vscode.ShellExecution('cmake', args, {
     cwd: moduleInfo.path,
   });
 
@@ -85,7 +165,7 @@ export function createConfigureTask(moduleInfo: ModuleInfo, generator: string):
     moduleId: moduleInfo.id,
   };
 
-  const taskName = `${moduleInfo.name}:configure`;
+  const taskName = getTaskName(moduleInfo, 'configure');
   const task = new vscode.Task(
     definition,
     moduleInfo.workspaceFolder,
@@ -0,0 +1,302 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DashboardController, TargetRunEvent } from '../dashboardController';
+import { ModuleState, TestCaseResult } from '../state/types';
+
+interface ItemData {
+  controller: DashboardController;
+  moduleId?: string;
+  target?: string;
+  testName?: string;
+}
+
+interface PendingTarget {
+  item: vscode.TestItem;
+  moduleId: string;
+  target: string;
+  started: boolean;
+}
+
+const getCellKey = (moduleId: string, target: string): string => `${moduleId}\n${target}`;
+
+/**
+ * Exposes every dashboard in the Test Explorer as dashboard → module → target → test case. Runs go
+ * through the dashboard's pipeline and runner queue, so results show up in the dashboard as well.
+ */
+export class TestExplorer implements vscode.Disposable {
+  private readonly testController = vscode.tests.createTestController('targetsManager', 'Embedded Targets');
+  private readonly itemData = new WeakMap<vscode.TestItem, ItemData>();
+  private readonly treeSignatures = new Map<DashboardController, string>();
+  private subscriptions: vscode.Disposable[] = [];
+
+  constructor() {
+    this.testController.createRunProfile(
+      'Run',
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.runTests(request, token),
+      true,
+    );
+  }
+
+  dispose(): void {
+    for (const subscription of this.subscriptions) {
+      subscription.dispose();
+    }
+    this.testController.dispose();
+  }
+
+  setDashboards(controllers: DashboardController[]): void {
+    for (const subscription of this.subscriptions) {
+      subscription.dispose();
+    }
+    this.treeSignatures.clear();
+    this.subscriptions = controllers.map((controller) =>
+      controller.onDidChangeState(() => {
+        if (this.getTreeSignature(controller) !== this.treeSignatures.get(controller)) {
+          this.syncDashboard(controller);
+        }
+      }),
+    );
+    this.testController.items.replace(controllers.map((controller) => this.syncDashboard(controller)));
+  }
+
+  /** Everything the test tree is built from; state pushes that leave it unchanged skip the sync. */
+  private getTreeSignature(controller: DashboardController): string {
+    const state = controller.getState();
+    return JSON.stringify(
+      state.modules.map((moduleState) => [
+        moduleState.module.id,
+        moduleState.module.name,
+        moduleState.module.path,
+        state.targets
+          .filter((target) => moduleState.availability[target.name])
+          .map((target) => [
+            target.name,
+            target.label,
+            (moduleState.tests?.[target.name]?.cases ?? []).map((testCase) => [testCase.name, testCase.file, testCase.line]),
+          ]),
+      ]),
+    );
+  }
+
+  private syncDashboard(controller: DashboardController): vscode.TestItem {
+    this.treeSignatures.set(controller, this.getTreeSignature(controller));
+    const rootId = `dashboard\n${controller.name}`;
+    const root = this.getItem(this.testController.items, rootId, controller.name, { controller });
+    const state = controller.getState();
+    root.children.replace(
+      state.modules.map((moduleState) => {
+        const moduleItem = this.getItem(
+          root.children,
+          `${rootId}\n${moduleState.module.id}`,
+          moduleState.module.variant ? `${moduleState.module.name} [${moduleState.module.variant}]` : moduleState.module.name,
+          { controller, moduleId: moduleState.module.id },
+          vscode.Uri.file(moduleState.module.path),
+        );
+        moduleItem.children.replace(
+          state.targets
+            .filter((target) => moduleState.availability[target.name])
+            .map((target) => {
+              const targetItem = this.getItem(
+                moduleItem.children,
+                `${moduleItem.id}\n${target.name}`,
+                target.label ?? target.name,
+                { controller, moduleId: moduleState.module.id, target: target.name },
+              );
+              targetItem.description = target.label ? target.name : undefined;
+              targetItem.children.replace(
+                (moduleState.tests?.[target.name]?.cases ?? []).map((testCase) =>
+                  this.getTestCaseItem(controller, targetItem, moduleState, target.name, testCase),
+                ),
+              );
+              return targetItem;
+            }),
+        );
+        return moduleItem;
+      }),
+    );
+    return root;
+  }
+
+  private getTestCaseItem(
+    controller: DashboardController,
+    targetItem: vscode.TestItem,
+    moduleState: ModuleState,
+    target: string,
+    testCase: TestCaseResult,
+  ): vscode.TestItem {
+    const uri = testCase.file ? vscode.Uri.file(path.resolve(moduleState.module.path, testCase.file)) : undefined;
+    const item = this.getItem(
+      targetItem.children,
+      `${targetItem.id}\n${testCase.name}`,
+      testCase.name,
+      { controller, moduleId: moduleState.module.id, target, testName: testCase.name },
+      uri,
+    );
+    if (testCase.line) {
+      item.range = new vscode.Range(testCase.line - 1, 0, testCase.line - 1, 0);
+    }
+    return item;
+  }
+
+  private getItem(
+    collection: vscode.TestItemCollection,
+    id: string,
+    label: string,
+    data: ItemData,
+    uri?: vscode.Uri,
+  ): vscode.TestItem {
+    const existing = collection.get(id);
+    if (existing && existing.uri?.toString() === uri?.toString()) {
+      existing.label = label;
+      this.itemData.set(existing, data);
+      return existing;
+    }
+    const item = this.testController.createTestItem(id, label, uri);
+    this.itemData.set(item, data);
+    return item;
+  }
+
+  private async runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+    const run = this.testController.createTestRun(request);
+    const pending = new Map<DashboardController, Map<string, PendingTarget>>();
+    const excluded = new Set(request.exclude ?? []);
+    const roots: vscode.TestItem[] = [];
+    this.testController.items.forEach((item) => roots.push(item));
+    for (const item of request.include ?? roots) {
+      this.collectTargets(item, excluded, pending);
+    }
+
+    const subscriptions: vscode.Disposable[] = [];
+    const runs: Promise<void>[] = [];
+    for (const [controller, targets] of pending) {
+      for (const entry of targets.values()) {
+        run.enqueued(entry.item);
+      }
+      subscriptions.push(controller.onDidUpdateRun((event) => this.reportRun(run, controller, targets, event)));
+      const byModule = new Map<string, string[]>();
+      for (const entry of targets.values()) {
+        byModule.set(entry.moduleId, [...(byModule.get(entry.moduleId) ?? []), entry.target]);
+      }
+      for (const [moduleId, moduleTargets] of byModule) {
+        runs.push(controller.runTargets(moduleId, moduleTargets));
+      }
+      subscriptions.push(
+        token.onCancellationRequested(() => {
+          for (const [moduleId, moduleTargets] of byModule) {
+            controller.stopTargets(moduleId, moduleTargets);
+          }
+        }),
+      );
+    }
+
+    await Promise.all(runs);
+    for (const subscription of subscriptions) {
+      subscription.dispose();
+    }
+    // Targets that never finished were dropped (stopped, left out of a later pipeline, or gone from the module).
+    for (const targets of pending.values()) {
+      for (const entry of targets.values()) {
+        run.skipped(entry.item);
+      }
+    }
+    run.end();
+  }
+
+  private collectTargets(
+    item: vscode.TestItem,
+    excluded: Set<vscode.TestItem>,
+    pending: Map<DashboardController, Map<string, PendingTarget>>,
+  ): void {
+    const data = this.itemData.get(item);
+    if (!data || excluded.has(item)) {
+      return;
+    }
+    if (!data.target) {
+      item.children.forEach((child) => this.collectTargets(child, excluded, pending));
+      return;
+    }
+    // A single test case cannot be run on its own; its whole target runs.
+    const targetItem = data.testName ? item.parent : item;
+    if (!targetItem || !data.moduleId) {
+      return;
+    }
+    const targets = pending.get(data.controller) ?? new Map<string, PendingTarget>();
+    pending.set(data.controller, targets);
+    targets.set(getCellKey(data.moduleId, data.target), {
+      item: targetItem,
+      moduleId: data.moduleId,
+      target: data.target,
+      started: false,
+    });
+  }
+
+  private reportRun(
+    run: vscode.TestRun,
+    controller: DashboardController,
+    targets: Map<string, PendingTarget>,
+    event: TargetRunEvent,
+  ): void {
+    const key = getCellKey(event.moduleId, event.target);
+    const entry = targets.get(key);
+    const moduleState = controller.getState().modules.find((state) => state.module.id === event.moduleId);
+    const result = moduleState?.runs[event.target];
+    if (!entry || !moduleState || !result) {
+      return;
+    }
+    if (result.status === 'running') {
+      if (!entry.started) {
+        entry.started = true;
+        run.started(entry.item);
+      }
+      return;
+    }
+    if (event.output) {
+      run.appendOutput(event.output.replace(/\r?\n/g, '\r\n'), undefined, entry.item);
+    }
+    const duration = result.startedAt && result.finishedAt ? result.finishedAt - result.startedAt : undefined;
+    switch (result.status) {
+      case 'success':
+      case 'warning':
+        run.passed(entry.item, duration);
+        break;
+      case 'blocked':
+        run.skipped(entry.item);
+        break;
+      case 'timeout':
+        run.errored(entry.item, new vscode.TestMessage(`Terminated: ${result.timeoutReason ?? 'timeout'}`), duration);
+        break;
+      default:
+        run.failed(
+          entry.item,
+          new vscode.TestMessage(
+            result.exitCode === undefined ? `${event.target} failed` : `${event.target} failed with exit code ${result.exitCode}`,
+          ),
+          duration,
+        );
+        break;
+    }
+    this.reportTestCases(run, entry.item, moduleState, event.target);
+    targets.delete(key);
+  }
+
+  private reportTestCases(run: vscode.TestRun, targetItem: vscode.TestItem, moduleState: ModuleState, target: string): void {
+    for (const testCase of moduleState.tests?.[target]?.cases ?? []) {
+      const item = targetItem.children.get(`${targetItem.id}\n${testCase.name}`);
+      if (!item) {
+        continue;
+      }
+      if (testCase.status === 'passed') {
+        run.passed(item);
+      } else if (testCase.status === 'ignored') {
+        run.skipped(item);
+      } else {
+        const message = new vscode.TestMessage(testCase.message ?? `${testCase.name} failed`);
+        if (item.uri && item.range) {
+          message.location = new vscode.Location(item.uri, item.range);
+        }
+        run.failed(item, message);
+      }
+    }
+  }
+}
@@ -0,0 +1,124 @@
+export interface AnsiStyle {
+  /** Theme color name such as `ansiRed`, or a `#rrggbb` value for 256-color and truecolor codes. */
+  foreground?: string;
+  background?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+export interface AnsiSegment extends AnsiStyle {
+  text: string;
+}
+
+const COLOR_NAMES = ['Black', 'Red', 'Green', 'Yellow', 'Blue', 'Magenta', 'Cyan', 'White'];
+// CSI sequences (colors, cursor movement, erase) and OSC sequences (titles, hyperlinks).
+const ESCAPE_PATTERN = /\u001b\[([0-9;?]*)([A-Za-z])|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)/g;
+
+const toHex = (value: number): string => value.toString(16).padStart(2, '0');
+
+function getPaletteColor(index: number): string {
+  if (index < 8) {
+    return `ansi${COLOR_NAMES[index]}`;
+  }
+  if (index < 16) {
+    return `ansiBright${COLOR_NAMES[index - 8]}`;
+  }
+  if (index < 232) {
+    const levels = [0, 95, 135, 175, 215, 255];
+    const offset = index - 16;
+    return `#${toHex(levels[Math.floor(offset / 36)])}${toHex(levels[Math.floor(offset / 6) % 6])}${toHex(levels[offset % 6])}`;
+  }
+  const gray = 8 + (index - 232) * 10;
+  return `#${toHex(gray)}${toHex(gray)}${toHex(gray)}`;
+}
+
+function applySgr(style: AnsiStyle, params: string): AnsiStyle {
+  const codes = params === '' ? [0] : params.split(';').map((code) => Number(code) || 0);
+  let next = { ...style };
+  for (let index = 0; index < codes.length; index += 1) {
+    const code = codes[index];
+    if (code === 0) {
+      next = {};
+    } else if (code === 1) {
+      next.bold = true;
+    } else if (code === 2) {
+      next.dim = true;
+    } else if (code === 3) {
+      next.italic = true;
+    } else if (code === 4) {
+      next.underline = true;
+    } else if (code === 22) {
+      next.bold = false;
+      next.dim = false;
+    } else if (code === 23) {
+      next.italic = false;
+    } else if (code === 24) {
+      next.underline = false;
+    } else if (code >= 30 && code <= 37) {
+      next.foreground = getPaletteColor(code - 30);
+    } else if (code >= 90 && code <= 97) {
+      next.foreground = getPaletteColor(code - 90 + 8);
+    } else if (code >= 40 && code <= 47) {
+      next.background = getPaletteColor(code - 40);
+    } else if (code >= 100 && code <= 107) {
+      next.background = getPaletteColor(code - 100 + 8);
+    } else if (code === 39) {
+      next.foreground = undefined;
+    } else if (code === 49) {
+      next.background = undefined;
+    } else if (code === 38 || code === 48) {
+      let color: string | undefined;
+      if (codes[index + 1] === 5 && index + 2 < codes.length) {
+        color = getPaletteColor(codes[index + 2] & 0xff);
+        index += 2;
+      } else if (codes[index + 1] === 2 && index + 4 < codes.length) {
+        color = `#${codes.slice(index + 2, index + 5).map((value) => toHex(value & 0xff)).join('')}`;
+        index += 4;
+      }
+      if (code === 38) {
+        next.foreground = color;
+      } else {
+        next.background = color;
+      }
+    }
+  }
+  return next;
+}
+
+/**
+ * Splits terminal output into lines of styled segments. SGR sequences (colors and text attributes)
+ * become segment styles; every other escape sequence is dropped, as are carriage returns that
+ * only redraw progress lines.
+ */
+export function parseAnsi(text: string): AnsiSegment[][] {
+  const lines: AnsiSegment[][] = [];
+  let style: AnsiStyle = {};
+  for (const rawLine of text.replace(/\r\n/g, '\n').split('\n')) {
+    // Progress output rewrites the line after a carriage return; keep what was written last.
+    const line = rawLine.slice(rawLine.lastIndexOf('\r', rawLine.length - 2) + 1).replace(/\r$/, '');
+    const segments: AnsiSegment[] = [];
+    let lastIndex = 0;
+    ESCAPE_PATTERN.lastIndex = 0;
+    for (let match = ESCAPE_PATTERN.exec(line); match; match = ESCAPE_PATTERN.exec(line)) {
+      if (match.index > lastIndex) {
+        segments.push({ ...style, text: line.slice(lastIndex, match.index) });
+      }
+      if (match[2] === 'm') {
+        style = applySgr(style, match[1]);
+      }
+      lastIndex = match.index + match[0].length;
+    }
+    if (lastIndex < line.length) {
+      segments.push({ ...style, text: line.slice(lastIndex) });
+    }
+    lines.push(segments);
+  }
+  return lines;
+}
+
+/** Removes escape sequences, for parsers matching plain text. */
+export function stripAnsi(text: string): string {
+  return text.replace(ESCAPE_PATTERN, '');
+}
@@ -13,6 +13,12 @@ export interface ExecResultWithExitCode extends ExecResult {
   exitCode?: number;
 }
 
+export interface ExecOptions {
+  env?: Record<string, string>;
+  signal?: AbortSignal;
+  onOutput?: () => void;
+}
+
 export async function runCommand(command: string, args: string[], cwd: string): Promise<ExecResult> {
   const { stdout, stderr } = await execFileAsync(command, args, {
     cwd,
@@ -26,13 +32,21 @@ export async function runCommandWithExitCode(
   command: string,
   args: string[],
   cwd: string,
+  options: ExecOptions = {},
 ): Promise<ExecResultWithExitCode> {
+  const { env, signal, onOutput } = options;
   try {
-    const { stdout, stderr } = await execFileAsync(command, args, {
+    const pending = execFileAsync(command, args, {
       cwd,
       maxBuffer: MAX_BUFFER,
-      env: process.env,
+      env: env ? { ...process.env, ...env } : process.env,
+      signal,
     });
+    if (onOutput) {
+      pending.child.stdout?.on('data', onOutput);
+      pending.child.stderr?.on('data', onOutput);
+    }
+    const { stdout, stderr } = await pending;
     return { stdout: stdout ?? '', stderr: stderr ?? '', exitCode: 0 };
   } catch (error) {
     if (error && typeof error === 'object' && 'stdout' in error && 'stderr' in error) {
@@ -0,0 +1,62 @@
+const GLOB_CHARS = /[*?[\]{}]/;
+
+export function hasGlobCharacters(value: string): boolean {
+  return GLOB_CHARS.test(value);
+}
+
+export function toPosixPath(value: string): string {
+  return value.replace(/\\/g, '/');
+}
+
+export function globToRegExp(pattern: string, caseInsensitive = false): RegExp {
+  const source = toPosixPath(pattern.trim()).replace(/^\.\//, '').replace(/\/+$/, '');
+  let regex = '';
+  let braceDepth = 0;
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (char === '*') {
+      if (source[index + 1] === '*') {
+        const atSegmentStart = index === 0 || source[index - 1] === '/';
+        const atSegmentEnd = index + 2 === source.length || source[index + 2] === '/';
+        index += 1;
+        if (atSegmentStart && atSegmentEnd) {
+          if (source[index + 1] === '/') {
+            index += 1;
+            regex += '(?:.*/)?';
+          } else {
+            regex += '.*';
+          }
+          continue;
+        }
+      }
+      regex += '[^/]*';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '[') {
+      const end = source.indexOf(']', index + 1);
+      if (end === -1) {
+        regex += '\\[';
+      } else {
+        const body = source.slice(index + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        regex += `[${body}]`;
+        index = end;
+      }
+    } else if (char === '{') {
+      braceDepth += 1;
+      regex += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth -= 1;
+      regex += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      regex += '|';
+    } else {
+      regex += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${regex}$`, caseInsensitive ? 'i' : '');
+}
+
+export function matchesAnyGlob(value: string, patterns: string[], caseInsensitive = false): boolean {
+  const normalized = toPosixPath(value);
+  return patterns.some((pattern) => globToRegExp(pattern, caseInsensitive).test(normalized));
+}
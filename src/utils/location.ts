@@ -0,0 +1,36 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+export interface FileLocation {
+  file: string;
+  line: number;
+  column?: number;
+}
+
+/**
+ * Opens a `file:line:col` reference from tool output. Relative paths are tried against each base
+ * path in order, since tools print them relative to whatever directory they ran in.
+ */
+export async function openFileLocation(location: FileLocation, basePaths: string[]): Promise<void> {
+  const candidates = path.isAbsolute(location.file)
+    ? [location.file]
+    : basePaths.map((basePath) => path.resolve(basePath, location.file));
+  for (const candidate of candidates) {
+    try {
+      if (!(await fs.stat(candidate)).isFile()) {
+        continue;
+      }
+    } catch {
+      continue;
+    }
+    const position = new vscode.Position(Math.max(0, location.line - 1), Math.max(0, (location.column ?? 1) - 1));
+    await vscode.window.showTextDocument(vscode.Uri.file(candidate), {
+      selection: new vscode.Range(position, position),
+      viewColumn: vscode.ViewColumn.Beside,
+      preview: true,
+    });
+    return;
+  }
+  vscode.window.showWarningMessage(`File not found: ${location.file}`);
+}
@@ -5,6 +5,9 @@ export type WebviewMessage =
   | { type: 'runTarget'; moduleId: string; target: string }
   | { type: 'runTargetForModule'; moduleId: string }
   | { type: 'runTargetForAllModules'; target: string }
+  | { type: 'toggleWatch'; moduleId: string; target: string }
+  | { type: 'openLog'; moduleId: string; target: string }
+  | { type: 'showTests'; moduleId: string; target: string }
   | { type: 'reveal'; moduleId: string; target: string }
   | { type: 'revealConfigure'; moduleId: string }
   | { type: 'configureModule'; moduleId: string }
@@ -12,6 +15,8 @@ export type WebviewMessage =
   | { type: 'configureAllModules' }
   | { type: 'refresh' }
   | { type: 'runAll' }
+  | { type: 'runAllVariants' }
+  | { type: 'selectVariant'; variant: string }
   | { type: 'rerunFailed' }
   | { type: 'stopAll' }
   | { type: 'clearAllTasks' };
@@ -82,11 +87,24 @@ export class DashboardViewProvider implements vscode.Disposable {
     button:hover { background: var(--vscode-button-hoverBackground); }
     table { width: auto; border-collapse: collapse; }
     th, td { padding: 4px; text-align: center; border-bottom: 1px solid var(--vscode-editorGroup-border); white-space: nowrap; }
-    th { position: sticky; top: 0; background: var(--vscode-editor-background); }
+    thead { position: sticky; top: 0; z-index: 1; }
+    th { background: var(--vscode-editor-background); }
+    th.target-group { cursor: pointer; font-weight: 600; color: var(--vscode-descriptionForeground); border-bottom: none; }
+    th.target-group:hover { color: var(--vscode-foreground); }
+    .target-icon { margin-right: 2px; }
     td.module { text-align: left; cursor: pointer; }
     td.actions { text-align: left; }
     .cell { display: flex; align-items: center; justify-content: center; gap: 6px; }
     .run { opacity: 1; font-size: 14px; cursor: pointer; }
+    .retries { font-size: 11px; color: var(--vscode-terminal-ansiYellow); }
+    .watch { font-size: 12px; cursor: pointer; opacity: 0.25; }
+    .watch:hover { opacity: 0.6; }
+    .watch.active { opacity: 1; }
+    .tests { font-size: 11px; cursor: pointer; color: var(--vscode-terminal-ansiGreen); }
+    .tests.failing { color: var(--vscode-terminal-ansiRed); }
+    .coverage { font-size: 11px; color: var(--vscode-descriptionForeground); }
+    .log { font-size: 12px; cursor: pointer; opacity: 0.6; }
+    .log:hover { opacity: 1; }
     .status { font-weight: 600; cursor: pointer; font-size: 14px; display: inline-flex; align-items: center; justify-content: center; width: 1.4em; }
     .configure-status { font-weight: 600; cursor: pointer; font-size: 14px; display: inline-flex; align-items: center; justify-content: center; width: 1.4em; }
     .status.idle { color: var(--vscode-descriptionForeground); }
@@ -94,6 +112,8 @@ export class DashboardViewProvider implements vscode.Disposable {
     .status.success { color: var(--vscode-terminal-ansiGreen); }
     .status.warning { color: var(--vscode-terminal-ansiYellow); }
     .status.failed { color: var(--vscode-terminal-ansiRed); }
+    .status.blocked { color: var(--vscode-disabledForeground); }
+    .status.timeout { color: var(--vscode-terminal-ansiMagenta); }
     .status.missing { color: var(--vscode-disabledForeground); }
     .configure-status.idle { color: var(--vscode-descriptionForeground); }
     .configure-status.running { color: var(--vscode-terminal-ansiYellow); }
@@ -106,6 +126,10 @@ export class DashboardViewProvider implements vscode.Disposable {
     .target-header-content { display: inline-flex; align-items: center; gap: 6px; }
     .target-header button { background: transparent; color: var(--vscode-foreground); border: 1px solid var(--vscode-editorGroup-border); padding: 2px 6px; border-radius: 4px; cursor: pointer; font-size: 14px; }
     .target-header button:hover { background: var(--vscode-list-hoverBackground); }
+    .variant-controls { display: inline-flex; gap: 8px; align-items: center; }
+    .variant-controls select { background: var(--vscode-dropdown-background); color: var(--vscode-dropdown-foreground); border: 1px solid var(--vscode-dropdown-border); padding: 3px; }
+    .variant-tag { margin-left: 6px; padding: 0 4px; border-radius: 3px; font-size: 12px; background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); }
+    tr.group-row td { text-align: left; font-weight: 600; padding-top: 10px; color: var(--vscode-descriptionForeground); }
   </style>
 </head>
 <body>
@@ -116,11 +140,129 @@ export class DashboardViewProvider implements vscode.Disposable {
     <button data-action="rerunFailed">Rerun Failed</button>
     <button data-action="stopAll">Stop All</button>
     <button data-action="clearAllTasks">Clear Tasks</button>
+    <span id="variantControls" class="variant-controls"></span>
   </div>
   <div id="table"></div>
   <script nonce="${nonce}">
     const vscode = acquireVsCodeApi();
     const table = document.getElementById('table');
+    const variantControls = document.getElementById('variantControls');
+
+    const escapeHtml = (value) =>
+      String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/"/g, '&quot;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+
+    const GROUP_LABELS = { format: 'Format', test: 'Test', analysis: 'Analysis', coverage: 'Coverage', hardware: 'Hardware' };
+    const STATUS_SEVERITY = ['idle', 'success', 'running', 'warning', 'blocked', 'timeout', 'failed'];
+
+    const statusIcon = (status) =>
+      status === 'running'
+        ? '⏳'
+        : status === 'success'
+          ? '✓'
+          : status === 'warning'
+            ? '⚠️'
+            : status === 'failed'
+              ? '✗'
+              : status === 'blocked'
+                ? '⊘'
+                : status === 'timeout'
+                  ? '⏱'
+                  : '•';
+
+    const formatDuration = (ms) => {
+      const seconds = Math.round(ms / 1000);
+      return seconds < 60 ? seconds + 's' : Math.floor(seconds / 60) + 'm ' + (seconds % 60) + 's';
+    };
+
+    const getPercent = (counter) => (counter && counter.total > 0 ? (counter.covered / counter.total) * 100 : undefined);
+
+    // Describes one coverage counter together with the target's thresholds.
+    function describeCoverage(label, counter, key, options) {
+      const percent = getPercent(counter);
+      if (percent === undefined) {
+        return '';
+      }
+      const limits = [
+        options?.warnBelow?.[key] !== undefined ? 'warning below ' + options.warnBelow[key] + '%' : '',
+        options?.failBelow?.[key] !== undefined ? 'failure below ' + options.failBelow[key] + '%' : '',
+      ].filter(Boolean);
+      return (
+        label + ' coverage: ' + percent.toFixed(1) + '% (' + counter.covered + '/' + counter.total + ')' +
+        (limits.length > 0 ? ', ' + limits.join(', ') : '')
+      );
+    }
+
+    const getCollapsedGroups = () => new Set((vscode.getState() || {}).collapsedGroups || []);
+
+    function toggleGroup(group) {
+      const collapsed = getCollapsedGroups();
+      if (collapsed.has(group)) {
+        collapsed.delete(group);
+      } else {
+        collapsed.add(group);
+      }
+      vscode.setState({ ...(vscode.getState() || {}), collapsedGroups: [...collapsed] });
+      render(lastState);
+    }
+
+    // Orders targets by group (first appearance) and folds collapsed groups into a single column.
+    function buildColumns(targets) {
+      const grouped = targets.some((target) => target.group);
+      if (!grouped) {
+        return { grouped, groups: [], columns: targets.map((target) => ({ target })) };
+      }
+      const groups = [];
+      targets.forEach((target) => {
+        const key = target.group || 'other';
+        let group = groups.find((item) => item.key === key);
+        if (!group) {
+          group = { key, label: GROUP_LABELS[key] || 'Other', targets: [] };
+          groups.push(group);
+        }
+        group.targets.push(target);
+      });
+      const collapsed = getCollapsedGroups();
+      const columns = [];
+      groups.forEach((group) => {
+        group.collapsed = collapsed.has(group.key);
+        if (group.collapsed) {
+          columns.push({ group });
+        } else {
+          group.targets.forEach((target) => columns.push({ target }));
+        }
+      });
+      return { grouped, groups, columns };
+    }
+
+    function renderVariantControls(state) {
+      const variants = state.variants || [];
+      if (variants.length === 0) {
+        variantControls.innerHTML = '';
+        return;
+      }
+      const selector =
+        state.variantLayout === 'selector'
+          ? '<label>Variant <select id=\"variantSelect\">' +
+            variants
+              .map((variant) => '<option value=\"' + variant + '\"' + (variant === state.activeVariant ? ' selected' : '') + '>' + variant + '</option>')
+              .join('') +
+            '</select></label>'
+          : '';
+      variantControls.innerHTML = selector + '<button data-run-all-variants=\"true\" title=\"Run all targets for every variant\">Run All Variants</button>';
+      const select = document.getElementById('variantSelect');
+      if (select) {
+        select.addEventListener('change', () => {
+          vscode.postMessage({ type: 'selectVariant', variant: select.value });
+        });
+      }
+      variantControls.querySelector('[data-run-all-variants]').addEventListener('click', () => {
+        vscode.postMessage({ type: 'runAllVariants' });
+      });
+    }
 
     document.querySelectorAll('button[data-action]').forEach((button) => {
       button.addEventListener('click', () => {
@@ -128,24 +270,69 @@ export class DashboardViewProvider implements vscode.Disposable {
       });
     });
 
+    let lastState;
+
     function render(state) {
+      lastState = state;
       if (!state || !state.modules) {
         table.innerHTML = '<p>No modules found.</p>';
         return;
       }
+      renderVariantControls(state);
+      const visibleModules =
+        state.variantLayout === 'selector' && state.activeVariant
+          ? state.modules.filter((moduleState) => !moduleState.module.variant || moduleState.module.variant === state.activeVariant)
+          : state.modules;
 
-      const headerTargets = state.targets.map((target) =>
-        [
-          '<th data-target=\"' + target.name + '\" class=\"target-header\">',
+      const layout = buildColumns(state.targets);
+      const headerTargets = layout.columns.map((column) => {
+        if (column.group) {
+          const names = column.group.targets.map((target) => target.label || target.name).join(', ');
+          return '<th class=\"target-header\" title=\"' + escapeHtml(names) + '\">' + column.group.targets.length + ' targets</th>';
+        }
+        const target = column.target;
+        const tooltip = [target.name, target.description || ''].filter(Boolean).join('\\n');
+        const icon = target.icon ? '<span class=\"target-icon\">' + escapeHtml(target.icon) + '</span>' : '';
+        return [
+          '<th data-target=\"' + target.name + '\" class=\"target-header\" title=\"' + escapeHtml(tooltip) + '\">',
           '<span class=\"target-header-content\">',
-          '<span>' + target.name + '</span>',
+          '<span>' + icon + escapeHtml(target.label || target.name) + '</span>',
           '<button title=\"Run target for all modules\" data-run-all-target=\"true\" data-target=\"' + target.name + '\">▶</button>',
           '</span>',
           '</th>',
-        ].join(''),
+        ].join('');
+      }).join('');
+      const headerGroups = layout.groups.map((group) =>
+        '<th class=\"target-group\" colspan=\"' +
+          (group.collapsed ? 1 : group.targets.length) +
+          '\" data-toggle-group=\"' +
+          group.key +
+          '\" title=\"' +
+          (group.collapsed ? 'Expand' : 'Collapse') +
+          ' group\">' +
+          (group.collapsed ? '▸ ' : '▾ ') +
+          group.label +
+          '</th>',
       ).join('');
-      const rows = state.modules.map((moduleState) => {
-        const configureLabel = moduleState.needsConfigure ? 'Configure module (create out/)' : 'Reconfigure module (delete out/ then configure)';
+      const groupLabel = (moduleState) => {
+        const folderName = moduleState.module.workspaceFolder?.name;
+        const root = moduleState.module.root || '.';
+        return hasMultipleFolders && folderName ? folderName + ' / ' + root : root;
+      };
+      const folderNames = new Set(visibleModules.map((moduleState) => moduleState.module.workspaceFolder?.name));
+      const hasMultipleFolders = folderNames.size > 1;
+      const groupCount = new Set(visibleModules.map((moduleState) => groupLabel(moduleState))).size;
+      const columnCount = layout.columns.length + 2;
+      let currentGroup;
+      const rows = visibleModules.map((moduleState) => {
+        const configureLabel = moduleState.needsConfigure
+          ? 'Configure module (create build directory)'
+          : 'Reconfigure module (delete build directory then configure)';
+        const moduleDetails = [
+          moduleState.buildDir ? 'Build directory: ' + moduleState.buildDir : '',
+          moduleState.presets?.configure ? 'Configure preset: ' + moduleState.presets.configure : '',
+          moduleState.presets?.build ? 'Build preset: ' + moduleState.presets.build : '',
+        ].filter(Boolean).join('\\n');
         const configureAction = moduleState.needsConfigure ? 'configure' : 'reconfigure';
         const configureIcon = '🛠️';
         const configureStatus = moduleState.configure?.status || 'idle';
@@ -166,35 +353,102 @@ export class DashboardViewProvider implements vscode.Disposable {
           '<button title=\"Run all targets\" data-run-module=\"true\" data-module=\"' + moduleState.module.id + '\" ' + runDisabled + '>▶</button>',
           '</span>',
         ].join('');
-        const cells = state.targets.map((target) => {
+        const cells = layout.columns.map((column) => {
+          if (column.group) {
+            const available = column.group.targets.filter((target) => moduleState.availability[target.name]);
+            if (available.length === 0) {
+              return '<td><div class=\"cell\"><span class=\"status missing\">-</span></div></td>';
+            }
+            const statuses = available.map((target) => (moduleState.runs[target.name] || { status: 'idle' }).status);
+            const worst = statuses.reduce((current, status) =>
+              STATUS_SEVERITY.indexOf(status) > STATUS_SEVERITY.indexOf(current) ? status : current,
+            );
+            const tooltip = available.map((target, index) => (target.label || target.name) + ': ' + statuses[index]).join('\\n');
+            return [
+              '<td title=\"' + escapeHtml(tooltip) + '\">',
+              '<div class=\"cell\">',
+              '<span class=\"status ' + worst + '\">' + statusIcon(worst) + '</span>',
+              '</div>',
+              '</td>',
+            ].join('');
+          }
+          const target = column.target;
           const available = moduleState.availability[target.name];
           const run = moduleState.runs[target.name] || { status: 'idle' };
           if (!available) {
             return '<td><div class=\"cell\"><span class=\"status missing\">-</span></div></td>';
           }
           const statusClass = run.status;
-          const icon =
-            run.status === 'running'
-              ? '⏳'
-              : run.status === 'success'
-                ? '✓'
-                : run.status === 'warning'
-                  ? '⚠️'
-                  : run.status === 'failed'
-                    ? '✗'
-                    : '•';
+          const details = moduleState.targetDetails?.[target.name];
+          const tests = moduleState.tests?.[target.name];
+          const coverage = moduleState.coverage?.[target.name];
+          const tooltip = [
+            (target.label || target.name) + ': ' + run.status,
+            run.status === 'blocked' && run.blockedBy ? 'Blocked by: ' + run.blockedBy : '',
+            run.status === 'timeout' && run.timeoutReason ? 'Terminated: ' + run.timeoutReason : '',
+            ['success', 'warning', 'failed'].includes(run.status) && run.statusReason ? 'Decided by: ' + run.statusReason : '',
+            coverage ? describeCoverage('Line', coverage.lines, 'line', target.coverage) : '',
+            coverage ? describeCoverage('Branch', coverage.branches, 'branch', target.coverage) : '',
+            tests ? 'Tests: ' + tests.passed + ' passed, ' + tests.failed + ' failed, ' + tests.ignored + ' ignored' : '',
+            run.attempts > 1
+              ? (run.status === 'running' ? 'Attempt ' : run.status === 'success' || run.status === 'warning' ? 'Passed after ' : 'Gave up after ') +
+                run.attempts +
+                (run.status === 'running' ? '' : ' attempts')
+              : '',
+            run.status !== 'running' && run.startedAt && run.finishedAt
+              ? 'Last run: ' + new Date(run.finishedAt).toLocaleString() + ' (' + formatDuration(run.finishedAt - run.startedAt) + ')'
+              : '',
+            target.dependsOn && target.dependsOn.length > 0 ? 'Depends on: ' + target.dependsOn.join(', ') : '',
+            moduleState.commands?.[target.name] ? 'Command: ' + moduleState.commands[target.name] : '',
+            details ? 'CMake target type: ' + details.type : '',
+            details && details.artifacts.length > 0 ? 'Artifacts: ' + details.artifacts.join(', ') : '',
+          ].filter(Boolean).join('\\n');
+          const icon = statusIcon(run.status);
+          const watching = (moduleState.watching || []).includes(target.name);
+          const retried = run.attempts > 1 ? '<span class=\"retries\">↻' + run.attempts + '</span>' : '';
           return [
-            '<td data-module=\"' + moduleState.module.id + '\" data-target=\"' + target.name + '\">',
+            '<td title=\"' + escapeHtml(tooltip + (watching ? '\\nWatching for changes' : '')) + '\" data-module=\"' + moduleState.module.id + '\" data-target=\"' + target.name + '\">',
             '<div class=\"cell\">',
             '<span class=\"status ' + statusClass + '\" data-reveal=\"true\">' + icon + '</span>',
+            retried,
+            tests
+              ? '<span class=\"tests' + (tests.failed > 0 ? ' failing' : '') + '\" data-tests=\"true\" title=\"Show failing tests\">' +
+                tests.passed + '/' + (tests.total - tests.ignored) +
+                '</span>'
+              : '',
+            coverage
+              ? '<span class=\"coverage\">' +
+                [
+                  getPercent(coverage.lines) !== undefined ? 'L ' + Math.floor(getPercent(coverage.lines)) + '%' : '',
+                  getPercent(coverage.branches) !== undefined ? 'B ' + Math.floor(getPercent(coverage.branches)) + '%' : '',
+                ].filter(Boolean).join(' · ') +
+                '</span>'
+              : '',
             '<span class=\"run\" data-run=\"true\">▶</span>',
+            '<span class=\"watch' +
+              (watching ? ' active' : '') +
+              '\" data-watch=\"true\" title=\"' +
+              (watching ? 'Stop watching' : 'Rerun on file changes in this module') +
+              '\">👁</span>',
+            run.hasLog ? '<span class=\"log\" data-log=\"true\" title=\"Show captured output\">≡</span>' : '',
             '</div>',
             '</td>',
           ].join('');
         }).join('');
+        const variantTag =
+          moduleState.module.variant && state.variantLayout !== 'selector'
+            ? '<span class=\"variant-tag\">' + moduleState.module.variant + '</span>'
+            : '';
+        const group = groupLabel(moduleState);
+        const groupRow =
+          groupCount > 1 && group !== currentGroup
+            ? '<tr class=\"group-row\"><td colspan=\"' + columnCount + '\">' + group + '</td></tr>'
+            : '';
+        currentGroup = group;
         return [
+          groupRow,
           '<tr>',
-          '<td class=\"module\" data-module=\"' + moduleState.module.id + '\">' + moduleState.module.name + '</td>',
+          '<td class=\"module\" title=\"' + escapeHtml(moduleDetails) + '\" data-module=\"' + moduleState.module.id + '\">' + moduleState.module.name + variantTag + '</td>',
           '<td class=\"actions\">' + moduleActions + '</td>',
           cells,
           '</tr>',
@@ -204,9 +458,11 @@ export class DashboardViewProvider implements vscode.Disposable {
       table.innerHTML = [
         '<table>',
         '<thead>',
+        layout.grouped
+          ? '<tr><th rowspan=\"2\">${this.moduleLabel}</th><th rowspan=\"2\">${this.actionsLabel}</th>' + headerGroups + '</tr>'
+          : '',
         '<tr>',
-        '<th>${this.moduleLabel}</th>',
-        '<th>${this.actionsLabel}</th>',
+        layout.grouped ? '' : '<th>${this.moduleLabel}</th><th>${this.actionsLabel}</th>',
         headerTargets,
         '</tr>',
         '</thead>',
@@ -216,6 +472,10 @@ export class DashboardViewProvider implements vscode.Disposable {
         '</table>',
       ].join('');
 
+      table.querySelectorAll('th[data-toggle-group]').forEach((header) => {
+        header.addEventListener('click', () => toggleGroup(header.dataset.toggleGroup));
+      });
+
       table.querySelectorAll('td.module').forEach((cell) => {
         cell.addEventListener('click', () => {
           vscode.postMessage({ type: 'runTargetForModule', moduleId: cell.dataset.module });
@@ -255,6 +515,27 @@ export class DashboardViewProvider implements vscode.Disposable {
         });
       });
 
+      table.querySelectorAll('[data-watch="true"]').forEach((toggle) => {
+        toggle.addEventListener('click', (event) => {
+          const cell = event.target.closest('td');
+          vscode.postMessage({ type: 'toggleWatch', moduleId: cell.dataset.module, target: cell.dataset.target });
+        });
+      });
+
+      table.querySelectorAll('[data-tests="true"]').forEach((badge) => {
+        badge.addEventListener('click', (event) => {
+          const cell = event.target.closest('td');
+          vscode.postMessage({ type: 'showTests', moduleId: cell.dataset.module, target: cell.dataset.target });
+        });
+      });
+
+      table.querySelectorAll('[data-log="true"]').forEach((button) => {
+        button.addEventListener('click', (event) => {
+          const cell = event.target.closest('td');
+          vscode.postMessage({ type: 'openLog', moduleId: cell.dataset.module, target: cell.dataset.target });
+        });
+      });
+
       table.querySelectorAll('[data-reveal="true"]').forEach((status) => {
         status.addEventListener('click', (event) => {
           const cell = event.target.closest('td');
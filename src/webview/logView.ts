@@ -0,0 +1,280 @@
+import * as vscode from 'vscode';
+import { AnsiSegment, parseAnsi } from '../utils/ansi';
+import { FileLocation, openFileLocation } from '../utils/location';
+
+export interface LogRun {
+  label: string;
+  logFile?: string;
+}
+
+export interface LogViewRequest {
+  title: string;
+  /** Runs of the cell, newest first. */
+  runs: LogRun[];
+  /** Directories that relative `file:line` references are resolved against, in order. */
+  basePaths: string[];
+}
+
+type LogSegment = AnsiSegment & { location?: FileLocation };
+
+type LogViewMessage =
+  | { type: 'ready' }
+  | { type: 'selectRun'; index: number }
+  | { type: 'openLocation'; location: FileLocation };
+
+// `path/to/file.c:12` or `file.c:12:5`, as printed by compilers, test frameworks and analyzers.
+const LOCATION_PATTERN = /((?:[A-Za-z]:)?[\w./\\+-]*[\w+-]\.[A-Za-z][\w+]*):(\d+)(?::(\d+))?/g;
+
+function splitLocations(segment: AnsiSegment): LogSegment[] {
+  const pieces: LogSegment[] = [];
+  let lastIndex = 0;
+  LOCATION_PATTERN.lastIndex = 0;
+  for (let match = LOCATION_PATTERN.exec(segment.text); match; match = LOCATION_PATTERN.exec(segment.text)) {
+    if (match.index > lastIndex) {
+      pieces.push({ ...segment, text: segment.text.slice(lastIndex, match.index) });
+    }
+    pieces.push({
+      ...segment,
+      text: match[0],
+      location: { file: match[1], line: Number(match[2]), column: match[3] ? Number(match[3]) : undefined },
+    });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex === 0) {
+    return [segment];
+  }
+  if (lastIndex < segment.text.length) {
+    pieces.push({ ...segment, text: segment.text.slice(lastIndex) });
+  }
+  return pieces;
+}
+
+export class LogViewProvider implements vscode.Disposable {
+  private panel?: vscode.WebviewPanel;
+  private request?: LogViewRequest;
+  private selected = 0;
+  private lines?: LogSegment[][];
+
+  constructor(private readonly readLog: (file: string) => Promise<string | undefined>) {}
+
+  dispose(): void {
+    this.panel?.dispose();
+    this.panel = undefined;
+  }
+
+  async show(request: LogViewRequest): Promise<void> {
+    this.request = request;
+    if (this.panel) {
+      this.panel.reveal();
+    } else {
+      this.panel = vscode.window.createWebviewPanel(
+        'targetsManager.log',
+        request.title,
+        vscode.ViewColumn.Active,
+        {
+          enableScripts: true,
+          retainContextWhenHidden: true,
+        },
+      );
+      this.panel.webview.html = this.getHtml(this.panel.webview);
+      this.panel.webview.onDidReceiveMessage((message) => {
+        void this.handleMessage(message as LogViewMessage);
+      });
+      this.panel.onDidDispose(() => {
+        this.panel = undefined;
+        this.request = undefined;
+        this.lines = undefined;
+      });
+    }
+    this.panel.title = request.title;
+    await this.selectRun(0);
+  }
+
+  private async handleMessage(message: LogViewMessage): Promise<void> {
+    switch (message.type) {
+      case 'ready':
+        this.postState();
+        break;
+      case 'selectRun':
+        await this.selectRun(message.index);
+        break;
+      case 'openLocation':
+        await openFileLocation(message.location, this.request?.basePaths ?? []);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private async selectRun(index: number): Promise<void> {
+    const logFile = this.request?.runs[index]?.logFile;
+    const output = logFile ? await this.readLog(logFile) : undefined;
+    this.selected = index;
+    this.lines = output === undefined ? undefined : parseAnsi(output).map((line) => line.flatMap(splitLocations));
+    this.postState();
+  }
+
+  private postState(): void {
+    if (!this.panel || !this.request) {
+      return;
+    }
+    void this.panel.webview.postMessage({
+      type: 'log',
+      payload: {
+        title: this.request.title,
+        runs: this.request.runs.map((run) => run.label),
+        selected: this.selected,
+        lines: this.lines,
+      },
+    });
+  }
+
+  private getHtml(webview: vscode.Webview): string {
+    const nonce = String(Date.now());
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Run Log</title>
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0; margin: 0; font-size: 13px; }
+    .toolbar { position: sticky; top: 0; display: flex; gap: 8px; align-items: center; padding: 6px 8px; background: var(--vscode-editor-background); border-bottom: 1px solid var(--vscode-editorGroup-border); }
+    .toolbar select, .toolbar input { color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border); padding: 3px; }
+    .toolbar input { width: 220px; }
+    button { background: transparent; color: var(--vscode-foreground); border: 1px solid var(--vscode-editorGroup-border); padding: 2px 6px; border-radius: 4px; cursor: pointer; }
+    button:hover { background: var(--vscode-list-hoverBackground); }
+    .count { color: var(--vscode-descriptionForeground); font-size: 12px; min-width: 60px; }
+    #log { font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); padding: 6px 8px; white-space: pre-wrap; word-break: break-all; }
+    .line { min-height: 1.2em; }
+    .line.match { background: var(--vscode-editor-findMatchHighlightBackground); }
+    .line.current { background: var(--vscode-editor-findMatchBackground); outline: 1px solid var(--vscode-editor-findMatchBorder, transparent); }
+    .location { color: var(--vscode-textLink-foreground); text-decoration: underline; cursor: pointer; }
+    .empty { padding: 12px; color: var(--vscode-descriptionForeground); }
+  </style>
+</head>
+<body>
+  <div class="toolbar">
+    <select id="runs" title="Run"></select>
+    <input id="search" placeholder="Search" />
+    <span id="count" class="count"></span>
+    <button id="previous" title="Previous match (Shift+Enter)">↑</button>
+    <button id="next" title="Next match (Enter)">↓</button>
+  </div>
+  <div id="log"></div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const runs = document.getElementById('runs');
+    const search = document.getElementById('search');
+    const count = document.getElementById('count');
+    const log = document.getElementById('log');
+    let lineElements = [];
+    let matches = [];
+    let current = -1;
+
+    const escapeHtml = (value) =>
+      String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/"/g, '&quot;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+
+    const toColor = (color) => (color.startsWith('#') ? color : 'var(--vscode-terminal-' + color + ')');
+
+    function renderSegment(segment) {
+      const styles = [];
+      if (segment.foreground) {
+        styles.push('color: ' + toColor(segment.foreground));
+      }
+      if (segment.background) {
+        styles.push('background: ' + toColor(segment.background));
+      }
+      if (segment.bold) {
+        styles.push('font-weight: bold');
+      }
+      if (segment.dim) {
+        styles.push('opacity: 0.7');
+      }
+      if (segment.italic) {
+        styles.push('font-style: italic');
+      }
+      if (segment.underline) {
+        styles.push('text-decoration: underline');
+      }
+      const style = styles.length > 0 ? ' style=\"' + styles.join('; ') + '\"' : '';
+      if (segment.location) {
+        return (
+          '<span class=\"location\"' + style + ' data-location=\"' + escapeHtml(JSON.stringify(segment.location)) + '\">' +
+          escapeHtml(segment.text) +
+          '</span>'
+        );
+      }
+      return style ? '<span' + style + '>' + escapeHtml(segment.text) + '</span>' : escapeHtml(segment.text);
+    }
+
+    function render(payload) {
+      runs.innerHTML = payload.runs
+        .map((label, index) => '<option value=\"' + index + '\"' + (index === payload.selected ? ' selected' : '') + '>' + escapeHtml(label) + '</option>')
+        .join('');
+      if (!payload.lines) {
+        log.innerHTML = '<div class=\"empty\">No output was captured for this run.</div>';
+      } else {
+        log.innerHTML = payload.lines.map((line) => '<div class=\"line\">' + line.map(renderSegment).join('') + '</div>').join('');
+      }
+      lineElements = Array.from(log.querySelectorAll('.line'));
+      log.querySelectorAll('[data-location]').forEach((element) => {
+        element.addEventListener('click', () => {
+          vscode.postMessage({ type: 'openLocation', location: JSON.parse(element.dataset.location) });
+        });
+      });
+      updateSearch();
+    }
+
+    function updateSearch() {
+      const query = search.value.toLowerCase();
+      lineElements.forEach((element) => element.classList.remove('match', 'current'));
+      matches = query ? lineElements.filter((element) => element.textContent.toLowerCase().includes(query)) : [];
+      matches.forEach((element) => element.classList.add('match'));
+      current = -1;
+      if (matches.length > 0) {
+        moveTo(0);
+      } else {
+        count.textContent = query ? 'No results' : '';
+      }
+    }
+
+    function moveTo(index) {
+      if (matches.length === 0) {
+        return;
+      }
+      matches[current]?.classList.remove('current');
+      current = (index + matches.length) % matches.length;
+      matches[current].classList.add('current');
+      matches[current].scrollIntoView({ block: 'center' });
+      count.textContent = current + 1 + ' of ' + matches.length;
+    }
+
+    runs.addEventListener('change', () => {
+      vscode.postMessage({ type: 'selectRun', index: Number(runs.value) });
+    });
+    search.addEventListener('input', updateSearch);
+    search.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        moveTo(current + (event.shiftKey ? -1 : 1));
+      }
+    });
+    document.getElementById('previous').addEventListener('click', () => moveTo(current - 1));
+    document.getElementById('next').addEventListener('click', () => moveTo(current + 1));
+
+    window.addEventListener('message', (event) => {
+      if (event.data?.type === 'log') {
+        render(event.data.payload);
+      }
+    });
+    vscode.postMessage({ type: 'ready' });
+  </script>
+</body>
+</html>`;
+  }
+}
@@ -1,10 +1,32 @@
 import * as vscode from 'vscode';
+import { ExcludedDirectory } from '../discovery/exclusions';
+import { TargetDefinition } from '../state/types';
 
 export type DashboardSettings = {
   name: string;
   moduleRoots: string[];
   excludedModules: string[];
-  targets: string[];
+  targets: Array<string | TargetDefinition>;
+  maxDepth?: number;
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  targetsFile?: string;
+  targetsListKey?: string;
+  targetMode?: string;
+  targetIncludePatterns?: string[];
+  targetExcludePatterns?: string[];
+  targetOrder?: string;
+  caseInsensitiveExclusions?: boolean;
+  configurePreset?: string;
+  buildPreset?: string;
+  buildDir?: string;
+  moduleBuildDirs?: Record<string, string>;
+  buildType?: string;
+  variants?: unknown[];
+  variantLayout?: string;
+  timeout?: number;
+  noOutputTimeout?: number;
+  statusRules?: unknown;
 };
 
 export type SettingsState = {
@@ -12,6 +34,7 @@ export type SettingsState = {
   makeJobs: string | number;
   maxParallel: number;
   dashboards: DashboardSettings[];
+  exclusions?: Record<string, ExcludedDirectory[]>;
 };
 
 type SettingsMessage =
@@ -64,6 +87,14 @@ export class SettingsViewProvider implements vscode.Disposable {
     void this.panel.webview.postMessage({ type: 'state', payload: this.getState() });
   }
 
+  /** Updates only the excluded directories, leaving unsaved edits in the form alone. */
+  refreshExclusions(): void {
+    if (!this.panel) {
+      return;
+    }
+    void this.panel.webview.postMessage({ type: 'exclusions', payload: this.getState().exclusions });
+  }
+
   private getHtml(webview: vscode.Webview): string {
     const nonce = String(Date.now());
     return `<!DOCTYPE html>
@@ -89,6 +120,10 @@ export class SettingsViewProvider implements vscode.Disposable {
     .list button { text-align: left; justify-content: flex-start; }
     .selected { border-color: var(--vscode-focusBorder); }
     .hint { color: var(--vscode-descriptionForeground); font-size: 12px; }
+    label.inline { display: flex; align-items: center; gap: 6px; font-weight: normal; margin-bottom: 10px; }
+    label.inline input { width: auto; margin: 0; }
+    ul.excluded { padding-left: 16px; margin: 6px 0 0; font-size: 12px; }
+    ul.excluded code { font-family: var(--vscode-editor-font-family); }
   </style>
 </head>
 <body>
@@ -131,21 +166,72 @@ export class SettingsViewProvider implements vscode.Disposable {
       <label for="dashboardName">Name</label>
       <input id="dashboardName" />
       <label for="moduleRoots">Module roots (comma or newline separated)</label>
-      <textarea id="moduleRoots" placeholder="e.g. test&#10;or: test, integration"></textarea>
-      <label for="excludedModules">Excluded modules (comma-separated)</label>
+      <textarea id="moduleRoots" placeholder="e.g. test&#10;or: test, integration&#10;or: components/*/test"></textarea>
+      <label for="maxDepth">Max search depth</label>
+      <input id="maxDepth" type="number" min="1" />
+      <label for="includePatterns">Include patterns (comma or newline separated)</label>
+      <textarea id="includePatterns" placeholder="e.g. drivers/*&#10;app/**"></textarea>
+      <label for="excludePatterns">Exclude patterns (comma or newline separated)</label>
+      <textarea id="excludePatterns" placeholder="e.g. **/legacy"></textarea>
+      <label for="excludedModules">Excluded modules (comma-separated names, globs, paths or /regex/)</label>
       <textarea id="excludedModules"></textarea>
+      <label class="inline"><input id="caseInsensitiveExclusions" type="checkbox" /> Case-insensitive exclusions</label>
       <label for="targets">Targets (comma-separated)</label>
       <textarea id="targets"></textarea>
+      <label for="targetsFile">Targets manifest file (optional)</label>
+      <input id="targetsFile" placeholder="e.g. cmake/targets.json" />
+      <label for="targetsListKey">Manifest list</label>
+      <select id="targetsListKey">
+        <option value="targets">targets</option>
+        <option value="all_test_targets">all_test_targets</option>
+        <option value="test">test</option>
+        <option value="hw">hw</option>
+        <option value="hw_test">hw_test</option>
+        <option value="ci">ci</option>
+        <option value="reports">reports</option>
+        <option value="format">format</option>
+      </select>
+      <label for="buildDir">Build directory</label>
+      <input id="buildDir" placeholder="out, or e.g. \${workspaceFolder}/build/\${moduleName}" />
+      <label for="buildType">Build type (CMAKE_BUILD_TYPE, optional)</label>
+      <input id="buildType" placeholder="e.g. Debug" />
+      <label for="timeout">Target timeout in seconds (optional, overrides the global setting)</label>
+      <input id="timeout" type="number" min="0" />
+      <label for="noOutputTimeout">No-output watchdog in seconds (optional)</label>
+      <input id="noOutputTimeout" type="number" min="0" />
+      <label for="configurePreset">CMake configure preset (name, or "pick" to choose per module)</label>
+      <input id="configurePreset" placeholder="Leave empty to configure with -B out -G &lt;generator&gt;" />
+      <label for="buildPreset">CMake build preset (name, or "pick" to choose per module)</label>
+      <input id="buildPreset" placeholder="Leave empty to build with ninja/make" />
+      <label for="targetMode">Target columns</label>
+      <select id="targetMode">
+        <option value="list">Listed targets</option>
+        <option value="auto">Auto-detected targets</option>
+      </select>
+      <label for="targetIncludePatterns">Auto mode: include regexes (one per line)</label>
+      <textarea id="targetIncludePatterns" placeholder="e.g. ^(format|run|cc).*"></textarea>
+      <label for="targetExcludePatterns">Auto mode: exclude regexes (one per line)</label>
+      <textarea id="targetExcludePatterns" placeholder="Empty hides CMake internals (rebuild_cache, edit_cache, object files, ...)"></textarea>
+      <label for="targetOrder">Auto mode: order of unlisted targets</label>
+      <select id="targetOrder">
+        <option value="alphabetical">Alphabetical</option>
+        <option value="detected">As detected</option>
+      </select>
       <div class="buttons">
         <button id="saveDashboard">Save dashboard</button>
       </div>
       <div class="hint">Dashboards must have a name and at least one module root.</div>
     </div>
+    <div class="panel">
+      <label>Excluded directories</label>
+      <div class="hint">Directories skipped during the last discovery, with the rule that excluded them. Module roots may also contain a .targetsignore file.</div>
+      <ul id="excludedList" class="excluded"></ul>
+    </div>
   </div>
 
   <script nonce="${nonce}">
     const vscode = acquireVsCodeApi();
-    const state = { dashboards: [], buildSystem: 'auto', makeJobs: 'auto', maxParallel: 4, selectedIndex: 0 };
+    const state = { dashboards: [], exclusions: {}, buildSystem: 'auto', makeJobs: 'auto', maxParallel: 4, selectedIndex: 0 };
 
     const buildSystem = document.getElementById('buildSystem');
     const makeJobs = document.getElementById('makeJobs');
@@ -159,8 +245,31 @@ export class SettingsViewProvider implements vscode.Disposable {
 
     const dashboardName = document.getElementById('dashboardName');
     const moduleRootsInput = document.getElementById('moduleRoots');
+    const maxDepthInput = document.getElementById('maxDepth');
+    const includePatternsInput = document.getElementById('includePatterns');
+    const excludePatternsInput = document.getElementById('excludePatterns');
     const excludedModules = document.getElementById('excludedModules');
+    const caseInsensitiveExclusions = document.getElementById('caseInsensitiveExclusions');
+    const excludedList = document.getElementById('excludedList');
     const targets = document.getElementById('targets');
+    const targetsFile = document.getElementById('targetsFile');
+    const targetsListKey = document.getElementById('targetsListKey');
+    const targetMode = document.getElementById('targetMode');
+    const configurePreset = document.getElementById('configurePreset');
+    const buildDirInput = document.getElementById('buildDir');
+    const buildTypeInput = document.getElementById('buildType');
+    const timeoutInput = document.getElementById('timeout');
+    const noOutputTimeoutInput = document.getElementById('noOutputTimeout');
+    const buildPreset = document.getElementById('buildPreset');
+    const targetIncludePatterns = document.getElementById('targetIncludePatterns');
+    const targetExcludePatterns = document.getElementById('targetExcludePatterns');
+    const targetOrder = document.getElementById('targetOrder');
+
+    const toLines = (value) =>
+      value
+        .split('\\n')
+        .map((item) => item.trim())
+        .filter(Boolean);
 
     const toList = (value) =>
       value
@@ -168,10 +277,39 @@ export class SettingsViewProvider implements vscode.Disposable {
         .map((item) => item.trim())
         .filter(Boolean);
 
+    // Keeps labels, groups and icons of targets that stay in the list; other entries are saved as plain names.
+    const toTargets = (names, previous) =>
+      names.map((name) => {
+        const existing = previous.find((target) => target.name === name);
+        return existing && Object.keys(existing).length > 1 ? existing : name;
+      });
+
+    const toSeconds = (value) => (value.trim() && Number(value) >= 0 ? Number(value) : undefined);
+
+    const splitOutsideBraces = (line) => {
+      const entries = [];
+      let depth = 0;
+      let current = '';
+      for (const char of line) {
+        if (char === '{') {
+          depth += 1;
+        } else if (char === '}' && depth > 0) {
+          depth -= 1;
+        } else if (char === ',' && depth === 0) {
+          entries.push(current);
+          current = '';
+          continue;
+        }
+        current += char;
+      }
+      entries.push(current);
+      return entries;
+    };
+
     const toMultilineList = (value) =>
       value
         .split('\\n')
-        .flatMap((line) => line.split(','))
+        .flatMap((line) => splitOutsideBraces(line))
         .map((item) => item.trim())
         .filter(Boolean);
 
@@ -193,19 +331,74 @@ export class SettingsViewProvider implements vscode.Disposable {
       removeDashboard.disabled = state.dashboards.length === 0;
     };
 
+    const renderExcluded = () => {
+      excludedList.innerHTML = '';
+      const dashboard = state.dashboards[state.selectedIndex];
+      const entries = (dashboard && state.exclusions[dashboard.name]) || [];
+      if (entries.length === 0) {
+        const item = document.createElement('li');
+        item.textContent = 'No directories excluded.';
+        excludedList.appendChild(item);
+        return;
+      }
+      entries.forEach((entry) => {
+        const item = document.createElement('li');
+        const location = document.createElement('code');
+        location.textContent = (entry.root ? entry.root + '/' : '') + entry.path;
+        const rule = document.createElement('code');
+        rule.textContent = entry.rule;
+        item.append(location, ' excluded by ', rule, ' (' + entry.source + ')');
+        excludedList.appendChild(item);
+      });
+    };
+
     const fillDashboardForm = () => {
       const dashboard = state.dashboards[state.selectedIndex];
       if (!dashboard) {
         dashboardName.value = '';
         moduleRootsInput.value = '';
+        maxDepthInput.value = '';
+        includePatternsInput.value = '';
+        excludePatternsInput.value = '';
         excludedModules.value = '';
         targets.value = '';
+        targetsFile.value = '';
+        targetsListKey.value = 'targets';
+        targetMode.value = 'list';
+        configurePreset.value = '';
+        buildPreset.value = '';
+        buildDirInput.value = '';
+        buildTypeInput.value = '';
+        timeoutInput.value = '';
+        noOutputTimeoutInput.value = '';
+        targetIncludePatterns.value = '';
+        targetExcludePatterns.value = '';
+        targetOrder.value = 'alphabetical';
+        caseInsensitiveExclusions.checked = true;
+        renderExcluded();
         return;
       }
       dashboardName.value = dashboard.name ?? '';
       moduleRootsInput.value = (dashboard.moduleRoots || []).join('\\n');
+      maxDepthInput.value = dashboard.maxDepth ?? 1;
+      includePatternsInput.value = (dashboard.includePatterns || []).join('\\n');
+      excludePatternsInput.value = (dashboard.excludePatterns || []).join('\\n');
       excludedModules.value = (dashboard.excludedModules || []).join(', ');
-      targets.value = (dashboard.targets || []).join(', ');
+      targets.value = (dashboard.targets || []).map((target) => target.name ?? target).join(', ');
+      targetsFile.value = dashboard.targetsFile ?? '';
+      targetsListKey.value = dashboard.targetsListKey ?? 'targets';
+      targetMode.value = dashboard.targetMode ?? 'list';
+      configurePreset.value = dashboard.configurePreset ?? '';
+      buildPreset.value = dashboard.buildPreset ?? '';
+      buildDirInput.value = dashboard.buildDir ?? '';
+      buildTypeInput.value = dashboard.buildType ?? '';
+      timeoutInput.value = dashboard.timeout ?? '';
+      noOutputTimeoutInput.value = dashboard.noOutputTimeout ?? '';
+      targetIncludePatterns.value = (dashboard.targetIncludePatterns || []).join('\\n');
+      targetExcludePatterns.value = (dashboard.targetExcludePatterns || []).join('\\n');
+      targetOrder.value = dashboard.targetOrder ?? 'alphabetical';
+      caseInsensitiveExclusions.checked = dashboard.caseInsensitiveExclusions !== false;
+      renderExcluded();
     };
 
     const applyState = (payload) => {
@@ -213,6 +406,7 @@ export class SettingsViewProvider implements vscode.Disposable {
       state.makeJobs = payload.makeJobs;
       state.maxParallel = payload.maxParallel;
       state.dashboards = payload.dashboards || [];
+      state.exclusions = payload.exclusions || {};
       state.selectedIndex = Math.min(state.selectedIndex, Math.max(state.dashboards.length - 1, 0));
       buildSystem.value = state.buildSystem;
       makeJobs.value = state.makeJobs;
@@ -264,10 +458,27 @@ export class SettingsViewProvider implements vscode.Disposable {
         return;
       }
       const dashboard = {
+        ...state.dashboards[state.selectedIndex],
         name: dashboardName.value.trim(),
         moduleRoots,
+        maxDepth: Math.max(1, Math.floor(Number(maxDepthInput.value) || 1)),
+        includePatterns: toMultilineList(includePatternsInput.value),
+        excludePatterns: toMultilineList(excludePatternsInput.value),
         excludedModules: toList(excludedModules.value),
-        targets: toList(targets.value),
+        targets: toTargets(toList(targets.value), state.dashboards[state.selectedIndex].targets || []),
+        targetsFile: targetsFile.value.trim() || undefined,
+        targetsListKey: targetsListKey.value,
+        targetMode: targetMode.value,
+        targetIncludePatterns: toLines(targetIncludePatterns.value),
+        targetExcludePatterns: targetExcludePatterns.value.trim() ? toLines(targetExcludePatterns.value) : undefined,
+        targetOrder: targetOrder.value,
+        caseInsensitiveExclusions: caseInsensitiveExclusions.checked,
+        configurePreset: configurePreset.value.trim() || undefined,
+        buildPreset: buildPreset.value.trim() || undefined,
+        buildDir: buildDirInput.value.trim() || undefined,
+        buildType: buildTypeInput.value.trim() || undefined,
+        timeout: toSeconds(timeoutInput.value),
+        noOutputTimeout: toSeconds(noOutputTimeoutInput.value),
       };
       state.dashboards[state.selectedIndex] = dashboard;
       renderDashboards();
@@ -279,6 +490,10 @@ export class SettingsViewProvider implements vscode.Disposable {
       if (event.data?.type === 'state') {
         applyState(event.data.payload);
       }
+      if (event.data?.type === 'exclusions') {
+        state.exclusions = event.data.payload || {};
+        renderExcluded();
+      }
     });
 
     vscode.postMessage({ type: 'ready' });